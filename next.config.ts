@@ -1,7 +1,18 @@
 import type { NextConfig } from "next";
+import { LEGACY_CANVAS_ROUTES } from "./src/lib/legacyCanvasRoutes";
+
+const escapeRoute = (route: string) => route.replace(/\./g, "\\.");
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  async rewrites() {
+    return [
+      { source: "/api/canvas", destination: "/api/canvas/default" },
+      {
+        source: `/api/canvas/:route(${LEGACY_CANVAS_ROUTES.map(escapeRoute).join("|")})`,
+        destination: "/api/canvas/default/:route",
+      },
+    ];
+  },
 };
 
 export default nextConfig;
@@ -1,7 +1,5 @@
 import { NextResponse } from 'next/server';
-import { createClient, Errors } from '@farcaster/quick-auth';
-
-const client = createClient();
+import { getQuickAuthDomain, verifyQuickAuthToken } from '~/lib/quickAuth';
 
 export async function POST(request: Request) {
   try {
@@ -11,31 +9,19 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Token is required' }, { status: 400 });
     }
 
-    // Get domain from environment or request
-    const domain = process.env.NEXT_PUBLIC_URL
-      ? new URL(process.env.NEXT_PUBLIC_URL).hostname
-      : request.headers.get('host') || 'localhost';
-
-    try {
-      // Use the official QuickAuth library to verify the JWT
-      const payload = await client.verifyJwt({
-        token,
-        domain,
-      });
+    // Use the official QuickAuth library to verify the JWT
+    const fid = await verifyQuickAuthToken(token, getQuickAuthDomain(request));
 
-      return NextResponse.json({
-        success: true,
-        user: {
-          fid: payload.sub,
-        },
-      });
-    } catch (e) {
-      if (e instanceof Errors.InvalidTokenError) {
-        console.info('Invalid token:', e.message);
-        return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
-      }
-      throw e;
+    if (fid === null) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
     }
+
+    return NextResponse.json({
+      success: true,
+      user: {
+        fid,
+      },
+    });
   } catch (error) {
     console.error('Token validation error:', error);
     return NextResponse.json(
@@ -43,4 +29,4 @@ export async function POST(request: Request) {
       { status: 500 },
     );
   }
-}
\ No newline at end of file
+}
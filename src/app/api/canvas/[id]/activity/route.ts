@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCanvasStore } from '~/lib/canvasStore';
+import { getActivityHeatmap } from '~/lib/canvasActivity';
+import { getRouteCanvas, type CanvasRouteContext } from '~/lib/canvasRoute';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_WINDOW_MINUTES = 60;
+const MAX_WINDOW_MINUTES = 24 * 60;
+const DEFAULT_CELL_SIZE = 5;
+
+/**
+ * Heatmap of recent placement activity for the minimap.
+ *
+ * Query parameters (all optional):
+ * - `minutes`: how far back to count placements (default: 60, max: one day)
+ * - `cell`: board pixels per side of each grid cell (default: 5)
+ */
+export async function GET(request: NextRequest, context: CanvasRouteContext) {
+  try {
+    const canvas = await getRouteCanvas(context);
+    if (canvas instanceof NextResponse) return canvas;
+    const { searchParams } = new URL(request.url);
+    const minutes = Number(searchParams.get('minutes') ?? DEFAULT_WINDOW_MINUTES);
+    const cellSize = Number(searchParams.get('cell') ?? DEFAULT_CELL_SIZE);
+
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_WINDOW_MINUTES) {
+      return NextResponse.json(
+        { success: false, error: `minutes must be an integer from 1 to ${MAX_WINDOW_MINUTES}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(cellSize) || cellSize < 1 || cellSize > canvas.size) {
+      return NextResponse.json(
+        { success: false, error: `cell must be an integer from 1 to ${canvas.size}` },
+        { status: 400 }
+      );
+    }
+
+    const store = getCanvasStore(canvas.id, canvas.season.number);
+    const heatmap = await getActivityHeatmap(store, canvas.size, minutes * 60 * 1000, cellSize);
+    return NextResponse.json(
+      { success: true, heatmap },
+      { headers: { 'Cache-Control': 'public, max-age=30' } }
+    );
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to aggregate canvas activity' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_BATCH_PIXELS } from '~/lib/constants';
+import { CanvasSealedError, getCanvasStore, type Pixel } from '~/lib/canvasStore';
+import { getAuthenticatedFid } from '~/lib/quickAuth';
+import { parsePixelInput, type PixelInput } from '~/lib/pixelInput';
+import { consumePixels, getPixelQuota, refundPixels } from '~/lib/pixelQuota';
+import { publishCanvasChange } from '~/lib/canvasEvents';
+import { applyCanvasPalette } from '~/lib/canvasPalette';
+import {
+  getCanvasClosedResponse,
+  getChannelMembershipResponse,
+  getRouteCanvas,
+  getSeasonEndedResponse,
+  type CanvasRouteContext,
+} from '~/lib/canvasRoute';
+import { recordUndoablePlacement } from '~/lib/placementUndo';
+import { claimPlacement, getNextPlacementAt, releasePlacement, startPlacementCooldown } from '~/lib/placementCooldown';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Places up to `MAX_BATCH_PIXELS` pixels in one atomic batch, as drawn by
+ * the line, rectangle and flood fill tools.
+ *
+ * Pixels that already have the requested color are skipped and not charged.
+ * If the user can't afford every remaining pixel, nothing is placed.
+ */
+export async function POST(request: NextRequest, context: CanvasRouteContext) {
+  try {
+    const canvas = await getRouteCanvas(context);
+    if (canvas instanceof NextResponse) return canvas;
+    const fid = await getAuthenticatedFid(request);
+    if (fid === null) {
+      return NextResponse.json(
+        { success: false, error: 'A valid QuickAuth token is required', code: 'unauthorized' },
+        { status: 401 }
+      );
+    }
+    const user = String(fid);
+
+    const closed = getCanvasClosedResponse(canvas);
+    if (closed) return closed;
+    const notMember = await getChannelMembershipResponse(canvas, fid);
+    if (notMember) return notMember;
+
+    await applyCanvasPalette(canvas);
+
+    const body = await request.json();
+    if (!Array.isArray(body?.pixels) || body.pixels.length === 0 || body.pixels.length > MAX_BATCH_PIXELS) {
+      return NextResponse.json(
+        { success: false, error: `pixels must be an array of 1 to ${MAX_BATCH_PIXELS} pixels` },
+        { status: 400 }
+      );
+    }
+
+    // Later entries for the same coordinate win
+    const requested = new Map<string, PixelInput>();
+    for (let i = 0; i < body.pixels.length; i++) {
+      const parsed = parsePixelInput(body.pixels[i], canvas);
+      if ('error' in parsed) {
+        return NextResponse.json(
+          { success: false, error: `pixels[${i}]: ${parsed.error}` },
+          { status: 400 }
+        );
+      }
+      requested.set(`${parsed.pixel.x},${parsed.pixel.y}`, parsed.pixel);
+    }
+
+    const store = getCanvasStore(canvas.id, canvas.season.number);
+    const current = new Map(
+      (await store.getPixels()).map(pixel => [`${pixel.x},${pixel.y}`, pixel.color?.toUpperCase()])
+    );
+    const changed = Array.from(requested.entries())
+      .filter(([field, pixel]) => current.get(field) !== pixel.color)
+      .map(([, pixel]) => pixel);
+
+    if (changed.length === 0) {
+      return NextResponse.json({
+        success: true,
+        pixels: [],
+        charged: 0,
+        quota: await getPixelQuota(canvas, user),
+        nextPlacementAt: await getNextPlacementAt(canvas.id, user)
+      });
+    }
+
+    const blockedUntil = await claimPlacement(canvas.id, user);
+    if (blockedUntil !== null) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Please wait before placing again',
+          code: 'cooldown',
+          nextPlacementAt: blockedUntil
+        },
+        { status: 429 }
+      );
+    }
+
+    const charge = await consumePixels(canvas, user, changed.length);
+    if (!charge) {
+      await releasePlacement(canvas.id, user);
+      return NextResponse.json(
+        {
+          success: false,
+          error: `This needs ${changed.length} pixels. Purchase more or wait for daily reset.`,
+          cost: changed.length,
+          quota: await getPixelQuota(canvas, user)
+        },
+        { status: 429 }
+      );
+    }
+
+    const timestamp = Date.now();
+    let placed: Pixel[];
+    try {
+      placed = await store.placePixels(changed.map(pixel => ({ ...pixel, timestamp, user })));
+    } catch (error) {
+      // The batch is atomic, so none of it was placed
+      await Promise.all([refundPixels(canvas.id, user, charge), releasePlacement(canvas.id, user)]);
+      if (error instanceof CanvasSealedError) return getSeasonEndedResponse(canvas.season);
+      throw error;
+    }
+    publishCanvasChange(canvas.id);
+    const nextPlacementAt = await startPlacementCooldown(canvas.id, user, charge);
+    const undo = await recordUndoablePlacement(canvas.id, user, placed, charge);
+
+    return NextResponse.json({
+      success: true,
+      pixels: placed,
+      charged: placed.length,
+      quota: await getPixelQuota(canvas, user),
+      nextPlacementAt,
+      undoExpiresAt: undo.expiresAt
+    });
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to place pixels' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCanvasStore, CHANGE_LOG_LIMIT } from '~/lib/canvasStore';
+import { getRouteCanvas, type CanvasRouteContext } from '~/lib/canvasRoute';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Placements made after sequence `since`, in order.
+ *
+ * When `since` is older than the retained change log the response has
+ * `resync: true` and the client should reload `/api/canvas/[id]/snapshot`.
+ */
+export async function GET(request: NextRequest, context: CanvasRouteContext) {
+  try {
+    const canvas = await getRouteCanvas(context);
+    if (canvas instanceof NextResponse) return canvas;
+    const { searchParams } = new URL(request.url);
+    const since = Number(searchParams.get('since'));
+
+    if (!searchParams.has('since') || !Number.isInteger(since) || since < 0) {
+      return NextResponse.json(
+        { success: false, error: 'since must be a non-negative integer' },
+        { status: 400 }
+      );
+    }
+
+    const store = getCanvasStore(canvas.id, canvas.season.number);
+    const changes = await store.getChangesSince(since);
+
+    if (changes === null) {
+      return NextResponse.json({
+        success: true,
+        resync: true,
+        sequence: await store.getSequence(),
+        changeLogLimit: CHANGE_LOG_LIMIT
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      resync: false,
+      sequence: changes.length > 0 ? changes[changes.length - 1].seq : since,
+      changes
+    });
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch canvas changes' },
+      { status: 500 }
+    );
+  }
+}
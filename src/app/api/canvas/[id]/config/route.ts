@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applyCanvasPalette } from '~/lib/canvasPalette';
+import { getChannel } from '~/lib/channels';
+import { getRouteCanvas, type CanvasRouteContext } from '~/lib/canvasRoute';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest, context: CanvasRouteContext) {
+  try {
+    const canvas = await getRouteCanvas(context);
+    if (canvas instanceof NextResponse) return canvas;
+
+    // Clients load the config first, so a palette change is applied before anyone paints
+    await applyCanvasPalette(canvas);
+    return NextResponse.json({
+      success: true,
+      config: canvas,
+      channel: canvas.channel ? await getChannel(canvas.channel) : null,
+    });
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to load canvas config' },
+      { status: 500 }
+    );
+  }
+}
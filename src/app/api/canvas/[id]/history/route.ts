@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCanvasStore, getSeasonSequenceOffset } from '~/lib/canvasStore';
+import { getRouteCanvas, type CanvasRouteContext } from '~/lib/canvasRoute';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_PAGE_SIZE = 500;
+const MAX_PAGE_SIZE = 2000;
+
+/**
+ * Pages through the full placement log in sequence order, for replays.
+ * Pass the returned `nextAfter` as `after` to fetch the following page.
+ * `startSequence` is the sequence of the season's blank board; its first
+ * placement is the one after it.
+ */
+export async function GET(request: NextRequest, context: CanvasRouteContext) {
+  try {
+    const canvas = await getRouteCanvas(context);
+    if (canvas instanceof NextResponse) return canvas;
+    const { searchParams } = new URL(request.url);
+    const after = Number(searchParams.get('after') ?? 0);
+    const limit = Number(searchParams.get('limit') ?? DEFAULT_PAGE_SIZE);
+
+    if (!Number.isInteger(after) || after < 0) {
+      return NextResponse.json(
+        { success: false, error: 'after must be a non-negative integer' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return NextResponse.json(
+        { success: false, error: `limit must be between 1 and ${MAX_PAGE_SIZE}` },
+        { status: 400 }
+      );
+    }
+
+    const store = getCanvasStore(canvas.id, canvas.season.number);
+    const [placements, sequence] = await Promise.all([
+      store.getPlacements(after, limit),
+      store.getSequence(),
+    ]);
+    const nextAfter = placements.length > 0 ? placements[placements.length - 1].seq : after;
+
+    return NextResponse.json({
+      success: true,
+      placements,
+      nextAfter,
+      startSequence: getSeasonSequenceOffset(canvas.season.number),
+      sequence,
+      hasMore: placements.length === limit
+    });
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch placement history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCanvasStore, getSeasonSequenceOffset } from '~/lib/canvasStore';
+import { getPixelsAtSequence, MAX_IMAGE_DIMENSION, renderCanvasPng } from '~/lib/canvasImage';
+import { getRouteCanvas, type CanvasRouteContext } from '~/lib/canvasRoute';
+
+export const dynamic = 'force-dynamic';
+
+function parseIntegerParam(searchParams: URLSearchParams, name: string, fallback: number): number | null {
+  const value = searchParams.get(name);
+  if (value === null) return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) ? parsed : null;
+}
+
+/**
+ * PNG export of the board or a region of it.
+ *
+ * Query parameters (all optional):
+ * - `x`, `y`, `w`, `h`: region to export, in board pixels (default: whole board)
+ * - `scale`: output pixels per board pixel (default: 1)
+ * - `seq`: render the board as of this placement sequence instead of now;
+ *   must be from the current season
+ */
+export async function GET(request: NextRequest, context: CanvasRouteContext) {
+  try {
+    const canvas = await getRouteCanvas(context);
+    if (canvas instanceof NextResponse) return canvas;
+    const { searchParams } = new URL(request.url);
+    const x = parseIntegerParam(searchParams, 'x', 0);
+    const y = parseIntegerParam(searchParams, 'y', 0);
+    const width = parseIntegerParam(searchParams, 'w', canvas.size - (x ?? 0));
+    const height = parseIntegerParam(searchParams, 'h', canvas.size - (y ?? 0));
+    const scale = parseIntegerParam(searchParams, 'scale', 1);
+    const requestedSeq = parseIntegerParam(searchParams, 'seq', -1);
+
+    if (x === null || y === null || width === null || height === null || scale === null || requestedSeq === null) {
+      return NextResponse.json(
+        { success: false, error: 'x, y, w, h, scale and seq must be integers' },
+        { status: 400 }
+      );
+    }
+
+    if (x < 0 || y < 0 || width < 1 || height < 1 || x + width > canvas.size || y + height > canvas.size) {
+      return NextResponse.json(
+        { success: false, error: 'Region out of bounds' },
+        { status: 400 }
+      );
+    }
+
+    if (scale < 1 || width * scale > MAX_IMAGE_DIMENSION || height * scale > MAX_IMAGE_DIMENSION) {
+      return NextResponse.json(
+        { success: false, error: `scale must be at least 1 and keep the image within ${MAX_IMAGE_DIMENSION}px` },
+        { status: 400 }
+      );
+    }
+
+    const store = getCanvasStore(canvas.id, canvas.season.number);
+    const currentSeq = await store.getSequence();
+    const isHistorical = requestedSeq >= 0;
+
+    if (isHistorical && requestedSeq > currentSeq) {
+      return NextResponse.json(
+        { success: false, error: 'seq is ahead of the canvas' },
+        { status: 400 }
+      );
+    }
+
+    if (isHistorical && requestedSeq < getSeasonSequenceOffset(canvas.season.number)) {
+      return NextResponse.json(
+        { success: false, error: 'seq is from an earlier season' },
+        { status: 400 }
+      );
+    }
+
+    const sequence = isHistorical ? requestedSeq : currentSeq;
+    const etag = `"${sequence}-${x}-${y}-${width}-${height}-${scale}"`;
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+    }
+
+    const pixels = isHistorical
+      ? await getPixelsAtSequence(store, sequence)
+      : await store.getPixels();
+    const png = renderCanvasPng(pixels, { x, y, width, height }, scale);
+
+    return new NextResponse(png, {
+      headers: {
+        'Content-Type': 'image/png',
+        // A historical sequence never changes; the live board must be revalidated
+        'Cache-Control': isHistorical ? 'public, max-age=31536000, immutable' : 'no-cache',
+        'Content-Disposition': `inline; filename="castcanvas-${canvas.id}-${sequence}.png"`,
+        ETag: etag,
+      },
+    });
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to render canvas image' },
+      { status: 500 }
+    );
+  }
+}
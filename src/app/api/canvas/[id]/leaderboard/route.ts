@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getLeaderboard,
+  LEADERBOARD_METRICS,
+  LEADERBOARD_PERIODS,
+  type LeaderboardMetric,
+  type LeaderboardPeriod,
+} from '~/lib/leaderboard';
+import { getRouteCanvas, type CanvasRouteContext } from '~/lib/canvasRoute';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+
+/**
+ * Contributor rankings built from the placement log.
+ *
+ * Query parameters (all optional):
+ * - `period`: `day`, `season` or `all` (default: `season`)
+ * - `metric`: rank by `placed`, `surviving` or `territory` (default: `placed`)
+ * - `limit`: number of top entries (default: 50, max: 100)
+ * - `fid`: also report this user's own entry as `viewer`, wherever they rank
+ */
+export async function GET(request: NextRequest, context: CanvasRouteContext) {
+  try {
+    const canvas = await getRouteCanvas(context);
+    if (canvas instanceof NextResponse) return canvas;
+    const { searchParams } = new URL(request.url);
+    const period = searchParams.get('period') ?? 'season';
+    const metric = searchParams.get('metric') ?? 'placed';
+    const limit = Number(searchParams.get('limit') ?? DEFAULT_LIMIT);
+    const fid = searchParams.get('fid');
+
+    if (!LEADERBOARD_PERIODS.includes(period as LeaderboardPeriod)) {
+      return NextResponse.json(
+        { success: false, error: `period must be one of ${LEADERBOARD_PERIODS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!LEADERBOARD_METRICS.includes(metric as LeaderboardMetric)) {
+      return NextResponse.json(
+        { success: false, error: `metric must be one of ${LEADERBOARD_METRICS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { success: false, error: `limit must be between 1 and ${MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const leaderboard = await getLeaderboard(canvas, period as LeaderboardPeriod, metric as LeaderboardMetric);
+    return NextResponse.json(
+      {
+        success: true,
+        ...leaderboard,
+        entries: leaderboard.entries.slice(0, limit),
+        total: leaderboard.entries.length,
+        viewer: fid ? leaderboard.entries.find(entry => entry.user === fid) ?? null : null,
+      },
+      { headers: { 'Cache-Control': 'public, max-age=15' } }
+    );
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to build leaderboard' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCanvasStore } from '~/lib/canvasStore';
+import { getRouteCanvas, type CanvasRouteContext } from '~/lib/canvasRoute';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_HISTORY_LIMIT = 10;
+const MAX_HISTORY_LIMIT = 50;
+
+export async function GET(request: NextRequest, context: CanvasRouteContext) {
+  try {
+    const canvas = await getRouteCanvas(context);
+    if (canvas instanceof NextResponse) return canvas;
+    const { searchParams } = new URL(request.url);
+    const x = Number(searchParams.get('x'));
+    const y = Number(searchParams.get('y'));
+    const limit = Number(searchParams.get('limit') ?? DEFAULT_HISTORY_LIMIT);
+
+    if (!searchParams.has('x') || !searchParams.has('y') || !Number.isInteger(x) || !Number.isInteger(y)) {
+      return NextResponse.json(
+        { success: false, error: 'x and y must be integers' },
+        { status: 400 }
+      );
+    }
+
+    if (x < 0 || x >= canvas.size || y < 0 || y >= canvas.size) {
+      return NextResponse.json(
+        { success: false, error: 'Coordinates out of bounds' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+      return NextResponse.json(
+        { success: false, error: `limit must be between 1 and ${MAX_HISTORY_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      x,
+      y,
+      history: await getCanvasStore(canvas.id, canvas.season.number).getPixelHistory(x, y, limit)
+    });
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch pixel history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PIXELS_PER_PURCHASE, PRICE_PER_PURCHASE, PAYMENT_WALLET } from '~/lib/constants';
+import { createPublicClient, http, parseEther } from 'viem';
+import { base } from 'viem/chains';
+import { creditPurchasedPixels, getPixelQuota } from '~/lib/pixelQuota';
+import { claimRedemption, getRedeemedBy } from '~/lib/purchaseRedemptions';
+import { getNeynarUser } from '~/lib/neynar';
+import { getRouteCanvas, type CanvasRouteContext } from '~/lib/canvasRoute';
+import type { CanvasConfig } from '~/lib/canvasConfig';
+
+const publicClient = createPublicClient({
+  chain: base,
+  transport: http(),
+});
+
+// Addresses a Farcaster account can pay from: its custody address plus verified ETH addresses
+async function getUserEthAddresses(fid: number): Promise<string[]> {
+  const neynarUser = await getNeynarUser(fid);
+  if (!neynarUser) {
+    return [];
+  }
+  return [
+    neynarUser.custody_address,
+    ...(neynarUser.verified_addresses?.eth_addresses || []),
+  ].filter(Boolean).map(address => address.toLowerCase());
+}
+
+// Purchased pixels can be spent on every canvas; the quota reported is the one on `canvas`
+async function purchaseResponse(
+  canvas: CanvasConfig,
+  user: string,
+  transactionHash: string,
+  alreadyRedeemed: boolean
+) {
+  return NextResponse.json({
+    success: true,
+    alreadyRedeemed,
+    purchasedPixels: PIXELS_PER_PURCHASE,
+    quota: await getPixelQuota(canvas, user),
+    price: PRICE_PER_PURCHASE,
+    paymentWallet: PAYMENT_WALLET,
+    transactionHash: transactionHash
+  });
+}
+
+function alreadyRedeemedResponse() {
+  return NextResponse.json(
+    { success: false, error: 'Transaction has already been redeemed by another user' },
+    { status: 409 }
+  );
+}
+
+export async function POST(request: NextRequest, context: CanvasRouteContext) {
+  try {
+    const canvas = await getRouteCanvas(context);
+    if (canvas instanceof NextResponse) return canvas;
+    const body = await request.json();
+    const { user, transactionHash } = body;
+
+    if (!user || !transactionHash) {
+      return NextResponse.json(
+        { success: false, error: 'User and transaction hash are required' },
+        { status: 400 }
+      );
+    }
+
+    const fid = Number(user);
+    if (!Number.isInteger(fid) || fid <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'User must be a Farcaster FID' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof transactionHash !== 'string' || !/^0x[0-9a-f]{64}$/i.test(transactionHash)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid transaction hash' },
+        { status: 400 }
+      );
+    }
+
+    const userKey = String(fid);
+
+    // Replaying an already credited hash is a no-op for its owner
+    const redeemedBy = await getRedeemedBy(transactionHash);
+    if (redeemedBy === userKey) {
+      return purchaseResponse(canvas, userKey, transactionHash, true);
+    }
+    if (redeemedBy) {
+      return alreadyRedeemedResponse();
+    }
+
+    try {
+      const transaction = await publicClient.getTransaction({
+        hash: transactionHash as `0x${string}`,
+      });
+
+      if (transaction.to?.toLowerCase() !== PAYMENT_WALLET.toLowerCase()) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid recipient address' },
+          { status: 400 }
+        );
+      }
+
+      if (transaction.value !== parseEther(PRICE_PER_PURCHASE.toString())) {
+        return NextResponse.json(
+          { success: false, error: 'Incorrect payment amount' },
+          { status: 400 }
+        );
+      }
+
+      const receipt = await publicClient.getTransactionReceipt({
+        hash: transactionHash as `0x${string}`,
+      });
+
+      if (receipt.status !== 'success') {
+        return NextResponse.json(
+          { success: false, error: 'Transaction failed' },
+          { status: 400 }
+        );
+      }
+
+      const userAddresses = await getUserEthAddresses(fid);
+      if (!userAddresses.includes(transaction.from.toLowerCase())) {
+        return NextResponse.json(
+          { success: false, error: 'Transaction sender is not linked to this Farcaster account' },
+          { status: 403 }
+        );
+      }
+
+      // A concurrent request may have claimed the hash while we were verifying it
+      if (!(await claimRedemption(transactionHash, userKey))) {
+        return (await getRedeemedBy(transactionHash)) === userKey
+          ? purchaseResponse(canvas, userKey, transactionHash, true)
+          : alreadyRedeemedResponse();
+      }
+
+      await creditPurchasedPixels(userKey, PIXELS_PER_PURCHASE);
+
+      return purchaseResponse(canvas, userKey, transactionHash, false);
+
+    } catch (_error) {
+      console.error('Transaction verification failed:', _error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to verify transaction' },
+        { status: 500 }
+      );
+    }
+
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to process purchase' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest, context: CanvasRouteContext) {
+  try {
+    const canvas = await getRouteCanvas(context);
+    if (canvas instanceof NextResponse) return canvas;
+    const { searchParams } = new URL(request.url);
+    const user = searchParams.get('user');
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'User parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      quota: await getPixelQuota(canvas, user),
+      pricePerPurchase: PRICE_PER_PURCHASE,
+      pixelsPerPurchase: PIXELS_PER_PURCHASE,
+      paymentWallet: PAYMENT_WALLET
+    });
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to get purchase info' },
+      { status: 500 }
+    );
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CanvasSealedError, getCanvasStore, type Pixel } from '~/lib/canvasStore';
+import { getAuthenticatedFid } from '~/lib/quickAuth';
+import { parsePixelInput } from '~/lib/pixelInput';
+import { consumePixels, getPixelQuota, refundPixels } from '~/lib/pixelQuota';
+import { publishCanvasChange } from '~/lib/canvasEvents';
+import { applyCanvasPalette } from '~/lib/canvasPalette';
+import {
+  getCanvasClosedResponse,
+  getChannelMembershipResponse,
+  getRouteCanvas,
+  getSeasonEndedResponse,
+  type CanvasRouteContext,
+} from '~/lib/canvasRoute';
+import { recordUndoablePlacement } from '~/lib/placementUndo';
+import { claimPlacement, releasePlacement, startPlacementCooldown } from '~/lib/placementCooldown';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest, context: CanvasRouteContext) {
+  try {
+    const canvas = await getRouteCanvas(context);
+    if (canvas instanceof NextResponse) return canvas;
+    const store = getCanvasStore(canvas.id, canvas.season.number);
+    // Read the sequence first so anything placed while loading pixels is replayed by the stream
+    const sequence = await store.getSequence();
+    const canvasPixels = await store.getPixels();
+    return NextResponse.json({
+      success: true,
+      pixels: canvasPixels,
+      sequence,
+      totalPixels: canvasPixels.length,
+      canvasSize: canvas.size
+    });
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch canvas data' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, context: CanvasRouteContext) {
+  try {
+    const canvas = await getRouteCanvas(context);
+    if (canvas instanceof NextResponse) return canvas;
+    const fid = await getAuthenticatedFid(request);
+    if (fid === null) {
+      return NextResponse.json(
+        { success: false, error: 'A valid QuickAuth token is required', code: 'unauthorized' },
+        { status: 401 }
+      );
+    }
+    const user = String(fid);
+
+    const closed = getCanvasClosedResponse(canvas);
+    if (closed) return closed;
+    const notMember = await getChannelMembershipResponse(canvas, fid);
+    if (notMember) return notMember;
+
+    await applyCanvasPalette(canvas);
+
+    const parsed = parsePixelInput(await request.json(), canvas);
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const blockedUntil = await claimPlacement(canvas.id, user);
+    if (blockedUntil !== null) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Please wait before placing again',
+          code: 'cooldown',
+          nextPlacementAt: blockedUntil
+        },
+        { status: 429 }
+      );
+    }
+
+    const charge = await consumePixels(canvas, user, 1);
+
+    if (!charge) {
+      await releasePlacement(canvas.id, user);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No pixels available. Purchase more or wait for daily reset.',
+          quota: await getPixelQuota(canvas, user)
+        },
+        { status: 429 }
+      );
+    }
+
+    let newPixel: Pixel;
+    try {
+      newPixel = await getCanvasStore(canvas.id, canvas.season.number).placePixel({
+        ...parsed.pixel,
+        timestamp: Date.now(),
+        user
+      });
+    } catch (error) {
+      // Nothing was placed, so give back the pixel and the cooldown claim
+      await Promise.all([refundPixels(canvas.id, user, charge), releasePlacement(canvas.id, user)]);
+      if (error instanceof CanvasSealedError) return getSeasonEndedResponse(canvas.season);
+      throw error;
+    }
+    publishCanvasChange(canvas.id);
+    const nextPlacementAt = await startPlacementCooldown(canvas.id, user, charge);
+    const undo = await recordUndoablePlacement(canvas.id, user, [newPixel], charge);
+
+    return NextResponse.json({
+      success: true,
+      pixel: newPixel,
+      quota: await getPixelQuota(canvas, user),
+      nextPlacementAt,
+      undoExpiresAt: undo.expiresAt
+    });
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to add pixel' },
+      { status: 500 }
+    );
+  }
+} 
\ No newline at end of file
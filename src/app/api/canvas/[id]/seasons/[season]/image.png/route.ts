@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSeasonImage } from '~/lib/canvasSeasons';
+import { getRouteSeasonArchive, type SeasonRouteContext } from '~/lib/canvasRoute';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PNG of a finished season's final board, as archived when it ended.
+ */
+export async function GET(_request: NextRequest, context: SeasonRouteContext) {
+  try {
+    const resolved = await getRouteSeasonArchive(context);
+    if (resolved instanceof NextResponse) return resolved;
+    const { canvas, archive } = resolved;
+
+    const png = await getSeasonImage(canvas.id, archive.season);
+    if (!png) {
+      return NextResponse.json(
+        { success: false, error: 'Season image not found', code: 'season_not_found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(png, {
+      headers: {
+        'Content-Type': 'image/png',
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'Content-Disposition': `inline; filename="castcanvas-${canvas.id}-season-${archive.season}.png"`,
+      },
+    });
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to load season image' },
+      { status: 500 }
+    );
+  }
+}
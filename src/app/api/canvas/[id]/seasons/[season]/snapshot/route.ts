@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCanvasStore } from '~/lib/canvasStore';
+import { encodeCanvasSnapshot } from '~/lib/canvasSnapshot';
+import { getRouteSeasonArchive, type SeasonRouteContext } from '~/lib/canvasRoute';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Binary snapshot of a finished season's final board, in the same format as
+ * `/api/canvas/[id]/snapshot`. The season's store is sealed, so it never
+ * changes.
+ */
+export async function GET(_request: NextRequest, context: SeasonRouteContext) {
+  try {
+    const resolved = await getRouteSeasonArchive(context);
+    if (resolved instanceof NextResponse) return resolved;
+    const { canvas, archive } = resolved;
+
+    const pixels = await getCanvasStore(canvas.id, archive.season).getPixels();
+    return new NextResponse(encodeCanvasSnapshot(pixels, canvas.size, archive.sequence), {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      },
+    });
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch season snapshot' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSeasonArchives } from '~/lib/canvasSeasons';
+import { getRouteCanvas, type CanvasRouteContext } from '~/lib/canvasRoute';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * The season being played and the archives of finished ones, newest
+ * first, each with links to its final board.
+ */
+export async function GET(_request: NextRequest, context: CanvasRouteContext) {
+  try {
+    const canvas = await getRouteCanvas(context);
+    if (canvas instanceof NextResponse) return canvas;
+
+    const archives = await getSeasonArchives(canvas.id);
+    return NextResponse.json({
+      success: true,
+      current: canvas.season,
+      seasons: archives.map(archive => ({
+        ...archive,
+        imageUrl: `/api/canvas/${canvas.id}/seasons/${archive.season}/image.png`,
+        snapshotUrl: `/api/canvas/${canvas.id}/seasons/${archive.season}/snapshot`,
+      })),
+    });
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to load seasons' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCanvasStore } from '~/lib/canvasStore';
+import { encodeCanvasSnapshot, SNAPSHOT_VERSION } from '~/lib/canvasSnapshot';
+import { getRouteCanvas, type CanvasRouteContext } from '~/lib/canvasRoute';
+
+export const dynamic = 'force-dynamic';
+
+// Most recently encoded snapshot of each canvas, reused until its sequence moves on
+const cachedSnapshots = new Map<string, { sequence: number; body: Uint8Array<ArrayBuffer> }>();
+
+/**
+ * Binary snapshot of the whole board; see `~/lib/canvasSnapshot` for the format.
+ * The ETag is the format version and the snapshot's sequence number, so unchanged
+ * boards revalidate with a 304.
+ */
+export async function GET(request: NextRequest, context: CanvasRouteContext) {
+  try {
+    const canvas = await getRouteCanvas(context);
+    if (canvas instanceof NextResponse) return canvas;
+    const store = getCanvasStore(canvas.id, canvas.season.number);
+    const sequence = await store.getSequence();
+    const etag = `"${SNAPSHOT_VERSION}-${sequence}"`;
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+    }
+
+    let cached = cachedSnapshots.get(canvas.id);
+    if (cached?.sequence !== sequence) {
+      const pixels = await store.getPixels();
+      cached = { sequence, body: encodeCanvasSnapshot(pixels, canvas.size, sequence) };
+      cachedSnapshots.set(canvas.id, cached);
+    }
+
+    return new NextResponse(cached.body, {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Cache-Control': 'no-cache',
+        ETag: etag,
+      },
+    });
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch canvas snapshot' },
+      { status: 500 }
+    );
+  }
+}
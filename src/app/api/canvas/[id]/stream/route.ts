@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCanvasStore } from '~/lib/canvasStore';
+import { subscribeToCanvasChanges } from '~/lib/canvasEvents';
+import { getRouteCanvas, type CanvasRouteContext } from '~/lib/canvasRoute';
+
+export const dynamic = 'force-dynamic';
+
+// How often to check the shared change log for placements made on other instances
+const POLL_INTERVAL_MS = 1000;
+// Close well before serverless timeouts; EventSource reconnects with Last-Event-ID
+const STREAM_DURATION_MS = 50_000;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const RECONNECT_DELAY_MS = 1000;
+
+function getResumeSequence(request: NextRequest): number | null {
+  const lastEventId = request.headers.get('last-event-id');
+  const since = lastEventId ?? new URL(request.url).searchParams.get('since');
+  if (since === null) return null;
+  const value = Number(since);
+  return Number.isInteger(value) && value >= 0 ? value : null;
+}
+
+/**
+ * Server-Sent Events stream of accepted pixel placements.
+ *
+ * Events:
+ * - `pixel`: one placement, with the placement's `seq` as the event id
+ * - `resync`: the requested sequence is no longer in the change log;
+ *   the client must reload the full canvas
+ */
+export async function GET(request: NextRequest, context: CanvasRouteContext) {
+  const canvas = await getRouteCanvas(context);
+  if (canvas instanceof NextResponse) return canvas;
+  const store = getCanvasStore(canvas.id, canvas.season.number);
+  const encoder = new TextEncoder();
+  let lastSeq = getResumeSequence(request) ?? await store.getSequence();
+  let closed = false;
+  let wake: (() => void) | null = null;
+  let release: (() => void) | null = null;
+
+  // Stops the subscription and timers, once, however the stream ends
+  const cleanUp = () => {
+    release?.();
+    release = null;
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        wake?.();
+        controller.close();
+      };
+
+      const unsubscribe = subscribeToCanvasChanges(canvas.id, () => wake?.());
+      request.signal.addEventListener('abort', close);
+      // Ending with the season makes the client reconnect to the next
+      // season's board, where its sequence number triggers a resync
+      const seasonRemaining = canvas.season.endsAt === null ? Infinity : canvas.season.endsAt - Date.now();
+      const deadline = setTimeout(close, Math.max(0, Math.min(STREAM_DURATION_MS, seasonRemaining)));
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+      release = () => {
+        unsubscribe();
+        clearTimeout(deadline);
+        clearInterval(heartbeat);
+      };
+
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+      try {
+        while (!closed) {
+          const changes = await store.getChangesSince(lastSeq);
+          if (changes === null) {
+            send(`event: resync\ndata: {}\n\n`);
+            break;
+          }
+          for (const pixel of changes) {
+            send(`id: ${pixel.seq}\nevent: pixel\ndata: ${JSON.stringify(pixel)}\n\n`);
+            lastSeq = pixel.seq;
+          }
+          await new Promise<void>(resolve => {
+            const timer = setTimeout(resolve, POLL_INTERVAL_MS);
+            wake = () => {
+              clearTimeout(timer);
+              resolve();
+            };
+          });
+          wake = null;
+        }
+      } catch (error) {
+        console.error('Canvas stream failed:', error);
+      } finally {
+        cleanUp();
+        close();
+      }
+    },
+    // The client disconnected: the loop stops at its next check
+    cancel() {
+      closed = true;
+      wake?.();
+      cleanUp();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UNDO_WINDOW_MS } from '~/lib/constants';
+import { getSeason } from '~/lib/canvasConfig';
+import { CanvasSealedError, getCanvasStore, getSequenceSeason, type Pixel } from '~/lib/canvasStore';
+import { getAuthenticatedFid } from '~/lib/quickAuth';
+import { getPixelQuota, refundPixels } from '~/lib/pixelQuota';
+import { takeUndoablePlacement } from '~/lib/placementUndo';
+import { releasePlacement } from '~/lib/placementCooldown';
+import { publishCanvasChange } from '~/lib/canvasEvents';
+import {
+  getCanvasClosedResponse,
+  getRouteCanvas,
+  getSeasonEndedResponse,
+  type CanvasRouteContext,
+} from '~/lib/canvasRoute';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Undoes the signed-in user's most recent placement within
+ * `UNDO_WINDOW_MS`, as long as nobody has painted over it. The previous
+ * pixels are restored and the quota it cost is refunded.
+ */
+export async function POST(request: NextRequest, context: CanvasRouteContext) {
+  try {
+    const canvas = await getRouteCanvas(context);
+    if (canvas instanceof NextResponse) return canvas;
+    const fid = await getAuthenticatedFid(request);
+    if (fid === null) {
+      return NextResponse.json(
+        { success: false, error: 'A valid QuickAuth token is required', code: 'unauthorized' },
+        { status: 401 }
+      );
+    }
+    const user = String(fid);
+
+    const closed = getCanvasClosedResponse(canvas);
+    if (closed) return closed;
+
+    const placement = await takeUndoablePlacement(canvas.id, user);
+    if (!placement) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Nothing to undo. Placements can only be undone for ${UNDO_WINDOW_MS / 1000} seconds.`,
+          code: 'nothing_to_undo'
+        },
+        { status: 409 }
+      );
+    }
+
+    if (placement.pixels.some(pixel => pixel.user !== user)) {
+      return NextResponse.json(
+        { success: false, error: 'You can only undo your own placements', code: 'forbidden' },
+        { status: 403 }
+      );
+    }
+
+    // Reverted in the season it was placed in, which fails once that has ended
+    const season = getSequenceSeason(placement.pixels[0].seq);
+    let reverted: Pixel[] | null;
+    try {
+      reverted = await getCanvasStore(canvas.id, season).revertPlacements(placement.pixels, user);
+    } catch (error) {
+      if (error instanceof CanvasSealedError) return getSeasonEndedResponse(getSeason(canvas, season));
+      throw error;
+    }
+    if (!reverted) {
+      return NextResponse.json(
+        { success: false, error: 'Someone has already painted over it', code: 'painted_over' },
+        { status: 409 }
+      );
+    }
+
+    // The refunded pixels no longer count toward the cooldown
+    await Promise.all([
+      refundPixels(canvas.id, user, placement.charge),
+      releasePlacement(canvas.id, user),
+    ]);
+    publishCanvasChange(canvas.id);
+
+    return NextResponse.json({
+      success: true,
+      pixels: reverted,
+      quota: await getPixelQuota(canvas, user),
+      nextPlacementAt: null
+    });
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to undo placement' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPixelQuota } from '~/lib/pixelQuota';
+import { getNextPlacementAt } from '~/lib/placementCooldown';
+import { isChannelMember } from '~/lib/channels';
+import { getRouteCanvas, type CanvasRouteContext } from '~/lib/canvasRoute';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest, context: CanvasRouteContext) {
+  try {
+    const canvas = await getRouteCanvas(context);
+    if (canvas instanceof NextResponse) return canvas;
+    const { searchParams } = new URL(request.url);
+    const fid = searchParams.get('fid');
+
+    if (!fid) {
+      return NextResponse.json(
+        { success: false, error: 'FID parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      quota: await getPixelQuota(canvas, fid),
+      dailyLimit: canvas.dailyLimit,
+      nextPlacementAt: await getNextPlacementAt(canvas.id, fid),
+      // Whether the user may paint on a channel canvas; null if the canvas is open to everyone or Neynar is unavailable
+      channelMember: canvas.channel
+        ? await isChannelMember(canvas.channel, Number(fid)).catch(() => null)
+        : null
+    });
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to get user pixels' },
+      { status: 500 }
+    );
+  }
+} 
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedFid } from '~/lib/quickAuth';
+import { getUserColorPreferences, setUserColorPreferences } from '~/lib/kv';
+import { EMPTY_COLOR_PREFERENCES, parseColorPreferences } from '~/lib/colorPreferences';
+
+export const dynamic = 'force-dynamic';
+
+function unauthorized() {
+  return NextResponse.json(
+    { success: false, error: 'A valid QuickAuth token is required', code: 'unauthorized' },
+    { status: 401 }
+  );
+}
+
+/**
+ * The signed-in user's recent and saved colors.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const fid = await getAuthenticatedFid(request);
+    if (fid === null) return unauthorized();
+
+    const preferences = await getUserColorPreferences(fid);
+    return NextResponse.json({ success: true, preferences: preferences ?? EMPTY_COLOR_PREFERENCES });
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to load colors' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Stores the signed-in user's colors unless the server already has a newer
+ * copy, and returns whichever copy was kept.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const fid = await getAuthenticatedFid(request);
+    if (fid === null) return unauthorized();
+
+    const preferences = parseColorPreferences(await request.json());
+    if (!preferences) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid color preferences' },
+        { status: 400 }
+      );
+    }
+
+    const stored = await getUserColorPreferences(fid);
+    if (stored && stored.updatedAt > preferences.updatedAt) {
+      return NextResponse.json({ success: true, preferences: stored });
+    }
+
+    await setUserColorPreferences(fid, preferences);
+    return NextResponse.json({ success: true, preferences });
+  } catch (_error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to save colors' },
+      { status: 500 }
+    );
+  }
+}
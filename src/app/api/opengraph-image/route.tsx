@@ -1,30 +1,144 @@
 import { ImageResponse } from "next/og";
 import { NextRequest } from "next/server";
 import { getNeynarUser } from "~/lib/neynar";
+import { APP_DESCRIPTION, APP_NAME, DEFAULT_CANVAS_ID } from "~/lib/constants";
+import { getCanvasStore, type Pixel } from "~/lib/canvasStore";
+import { renderCanvasPng, type CanvasRegion } from "~/lib/canvasImage";
+import { getCanvasConfig, getDefaultCanvasConfig } from "~/lib/canvasConfig";
+import { getChannel } from "~/lib/channels";
+import { startCanvasSeason } from "~/lib/canvasSeasons";
+import { getViewportRegion, parseViewportSearchParams } from "~/lib/viewport";
 
 export const dynamic = 'force-dynamic';
 
+const IMAGE_WIDTH = 1200;
+const IMAGE_HEIGHT = 800;
+// Largest side, in pixels, of the board thumbnail inside the card
+const THUMBNAIL_SIZE = 640;
+// Board pixels of context kept around the sharer's painted area
+const CROP_PADDING = 8;
+const MIN_CROP_SIZE = 32;
+
+// Rendered cards keyed by canvas, sequence and sharer, so crawler hits on an
+// unchanged board skip rendering entirely
+const MAX_CACHED_IMAGES = 50;
+const imageCache = new Map<string, ArrayBuffer>();
+
+function cacheImage(key: string, image: ArrayBuffer) {
+  imageCache.set(key, image);
+  if (imageCache.size > MAX_CACHED_IMAGES) {
+    imageCache.delete(imageCache.keys().next().value!);
+  }
+}
+
+// Square region around the given pixels, or the whole board if there are none
+function getCropRegion(pixels: Pixel[], canvasSize: number): CanvasRegion {
+  if (pixels.length === 0) {
+    return { x: 0, y: 0, width: canvasSize, height: canvasSize };
+  }
+  let minX = canvasSize, maxX = 0, minY = canvasSize, maxY = 0;
+  for (const pixel of pixels) {
+    minX = Math.min(minX, pixel.x);
+    maxX = Math.max(maxX, pixel.x);
+    minY = Math.min(minY, pixel.y);
+    maxY = Math.max(maxY, pixel.y);
+  }
+  const size = Math.min(
+    canvasSize,
+    Math.max(MIN_CROP_SIZE, maxX - minX + 1 + CROP_PADDING * 2, maxY - minY + 1 + CROP_PADDING * 2)
+  );
+  const centerX = (minX + maxX + 1) / 2;
+  const centerY = (minY + maxY + 1) / 2;
+  const x = Math.max(0, Math.min(canvasSize - size, Math.round(centerX - size / 2)));
+  const y = Math.max(0, Math.min(canvasSize - size, Math.round(centerY - size / 2)));
+  return { x, y, width: size, height: size };
+}
+
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const fid = searchParams.get('fid');
+  const canvas = await startCanvasSeason(
+    getCanvasConfig(searchParams.get('canvas') ?? DEFAULT_CANVAS_ID) ?? getDefaultCanvasConfig()
+  );
+  // Links to a board position crop to that position instead of the sharer's pixels
+  const viewport = parseViewportSearchParams(searchParams, canvas.size);
+
+  const store = getCanvasStore(canvas.id, canvas.season.number);
+  const sequence = await store.getSequence();
+  const viewportKey = viewport ? `${viewport.x},${viewport.y},${viewport.z}` : '';
+  const cacheKey = `${canvas.id}:${sequence}:${fid ?? ''}:${viewportKey}`;
+  const headers = {
+    'Content-Type': 'image/png',
+    'Cache-Control': 'public, max-age=60',
+    ETag: `"${cacheKey}"`,
+  };
+
+  const cached = imageCache.get(cacheKey);
+  if (cached) {
+    return new Response(cached, { headers });
+  }
 
-  const user = fid ? await getNeynarUser(Number(fid)) : null;
+  const [user, pixels, channel] = await Promise.all([
+    fid ? getNeynarUser(Number(fid)) : null,
+    store.getPixels(),
+    canvas.channel ? getChannel(canvas.channel) : null,
+  ]);
+  const userPixels = fid ? pixels.filter(pixel => pixel.user === fid) : [];
+  const region = viewport ? getViewportRegion(viewport, canvas.size) : getCropRegion(userPixels, canvas.size);
+  const scale = Math.max(1, Math.floor(THUMBNAIL_SIZE / region.width));
+  const thumbnail = Buffer.from(renderCanvasPng(pixels, region, scale)).toString('base64');
+  const thumbnailSize = region.width * scale;
 
-  return new ImageResponse(
+  const image = await new ImageResponse(
     (
-      <div tw="flex h-full w-full flex-col justify-center items-center relative bg-primary">
-        {user?.pfp_url && (
-          <div tw="flex w-96 h-96 rounded-full overflow-hidden mb-8 border-8 border-white">
-            <img src={user.pfp_url} alt="Profile" tw="w-full h-full object-cover" />
-          </div>
-        )}
-        <h1 tw="text-8xl text-white">{user?.display_name ? `Hello from ${user.display_name ?? user.username}!` : 'Hello!'}</h1>
-        <p tw="text-5xl mt-4 text-white opacity-80">Powered by Neynar 🪐</p>
+      <div tw="flex h-full w-full items-center justify-center bg-black text-white">
+        <img
+          src={`data:image/png;base64,${thumbnail}`}
+          alt="Canvas"
+          width={thumbnailSize}
+          height={thumbnailSize}
+          tw="border-4 border-white"
+        />
+        <div tw="flex flex-col ml-16 w-96">
+          <h1 tw="text-7xl">{canvas.name}</h1>
+          {canvas.id !== DEFAULT_CANVAS_ID && (
+            <p tw="text-3xl opacity-80">{`on ${APP_NAME}`}</p>
+          )}
+          {canvas.channel && (
+            <div tw="flex items-center mb-4">
+              {channel?.imageUrl && (
+                <img src={channel.imageUrl} alt="Channel" width={56} height={56} tw="rounded-full mr-4" />
+              )}
+              <p tw="text-3xl">{`/${canvas.channel}${channel && channel.name !== channel.id ? ` · ${channel.name}` : ''}`}</p>
+            </div>
+          )}
+          {user ? (
+            <div tw="flex flex-col">
+              {user.pfp_url && (
+                <div tw="flex w-40 h-40 rounded-full overflow-hidden mt-4 mb-6 border-4 border-white">
+                  <img src={user.pfp_url} alt="Profile" tw="w-full h-full object-cover" />
+                </div>
+              )}
+              <p tw="text-4xl">{user.display_name ?? user.username}</p>
+              <p tw="text-3xl opacity-80">
+                {`${userPixels.length} ${userPixels.length === 1 ? 'pixel' : 'pixels'} on the board`}
+              </p>
+            </div>
+          ) : (
+            <p tw="text-4xl opacity-80">{APP_DESCRIPTION}</p>
+          )}
+          {viewport && (
+            <p tw="text-3xl opacity-80">{`at (${viewport.x}, ${viewport.y})`}</p>
+          )}
+        </div>
       </div>
     ),
     {
-      width: 1200,
-      height: 800,
+      width: IMAGE_WIDTH,
+      height: IMAGE_HEIGHT,
     }
-  );
-}
\ No newline at end of file
+  ).arrayBuffer();
+
+  cacheImage(cacheKey, image);
+  return new Response(image, { headers });
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import dynamic from "next/dynamic";
-import { APP_NAME } from "~/lib/constants";
+import { APP_NAME, DEFAULT_CANVAS_ID } from "~/lib/constants";
 import { AuthProvider } from "~/components/providers/AuthProvider";
 
 // note: dynamic import is required for components that use the Frame SDK
@@ -10,11 +10,11 @@ const AppComponent = dynamic(() => import("~/components/App"), {
 });
 
 export default function App(
-  { title }: { title?: string } = { title: APP_NAME }
+  { title = APP_NAME, canvasId = DEFAULT_CANVAS_ID }: { title?: string; canvasId?: string } = {}
 ) {
   return (
     <AuthProvider>
-      <AppComponent title={title} />
+      <AppComponent title={title} canvasId={canvasId} />
     </AuthProvider>
   );
 }
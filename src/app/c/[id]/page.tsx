@@ -0,0 +1,55 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import App from "~/app/app";
+import { APP_URL, APP_NAME, APP_DESCRIPTION } from "~/lib/constants";
+import { getMiniAppEmbedMetadata } from "~/lib/utils";
+import { getCanvasConfig, getCanvasPath } from "~/lib/canvasConfig";
+import { getViewportQuery, parseViewport } from "~/lib/viewport";
+
+type CanvasParams = Promise<{ id: string }>;
+type CanvasSearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+function getParam(value: string | string[] | undefined): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+// A room's page is also its share link: with ?x=&y=&z= the embed shows the
+// board cropped to that view, and launching the mini app opens it there.
+export async function generateMetadata({
+  params,
+  searchParams,
+}: {
+  params: CanvasParams;
+  searchParams: CanvasSearchParams;
+}): Promise<Metadata> {
+  const canvas = getCanvasConfig((await params).id);
+  if (!canvas) return {};
+
+  const { x, y, z } = await searchParams;
+  const viewport = parseViewport(getParam(x), getParam(y), getParam(z), canvas.size);
+  const viewportQuery = viewport ? `&${getViewportQuery(viewport)}` : "";
+  const imageUrl = `${APP_URL}/api/opengraph-image?canvas=${canvas.id}${viewportQuery}`;
+  const launchUrl = `${APP_URL}${getCanvasPath(canvas.id)}${viewport ? `?${getViewportQuery(viewport)}` : ""}`;
+
+  return {
+    title: `${canvas.name} - ${APP_NAME}`,
+    openGraph: {
+      title: canvas.name,
+      description: APP_DESCRIPTION,
+      images: [imageUrl],
+    },
+    other: {
+      "fc:frame": JSON.stringify(getMiniAppEmbedMetadata(imageUrl, launchUrl)),
+    },
+  };
+}
+
+export default async function CanvasPage({
+  params,
+}: {
+  params: CanvasParams;
+}) {
+  const { id } = await params;
+  if (!getCanvasConfig(id)) notFound();
+  return (<App canvasId={id} />);
+}
@@ -0,0 +1,96 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { APP_NAME } from "~/lib/constants";
+import { getCanvasConfig, getCanvasPath } from "~/lib/canvasConfig";
+import { getSeasonArchives, startCanvasSeason } from "~/lib/canvasSeasons";
+import { getNeynarClient } from "~/lib/neynar";
+
+export const dynamic = "force-dynamic";
+
+type CanvasParams = Promise<{ id: string }>;
+
+// Neynar's bulk lookup limit
+const MAX_PROFILE_LOOKUPS = 100;
+
+function formatDate(time: number | null): string {
+  return time === null ? "the start" : new Date(time).toLocaleDateString(undefined, { dateStyle: "medium" });
+}
+
+// Usernames by FID, or an empty map if Neynar is unavailable
+async function getUsernames(fids: string[]): Promise<Map<string, string>> {
+  const usernames = new Map<string, string>();
+  if (fids.length === 0) return usernames;
+  try {
+    const { users } = await getNeynarClient().fetchBulkUsers({
+      fids: fids.slice(0, MAX_PROFILE_LOOKUPS).map(Number),
+    });
+    for (const user of users) {
+      usernames.set(String(user.fid), user.username);
+    }
+  } catch (error) {
+    console.error("Error getting Neynar users:", error);
+  }
+  return usernames;
+}
+
+export async function generateMetadata({ params }: { params: CanvasParams }): Promise<Metadata> {
+  const canvas = getCanvasConfig((await params).id);
+  return canvas ? { title: `${canvas.name} seasons - ${APP_NAME}` } : {};
+}
+
+/**
+ * Archive browser: every finished season of a canvas with its final board
+ * and top contributors.
+ */
+export default async function SeasonsPage({ params }: { params: CanvasParams }) {
+  const config = getCanvasConfig((await params).id);
+  if (!config) notFound();
+
+  const canvas = await startCanvasSeason(config);
+  const archives = await getSeasonArchives(canvas.id);
+  const usernames = await getUsernames(
+    Array.from(new Set(archives.flatMap(archive => archive.contributors.map(contributor => contributor.user))))
+  );
+
+  return (
+    <main className="min-h-screen bg-black text-white p-4">
+      <div className="flex justify-between items-center mb-4">
+        <h1 className="font-bold text-lg">{canvas.name} seasons</h1>
+        <a href={getCanvasPath(canvas.id)} className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm">
+          Back to season {canvas.season.number}
+        </a>
+      </div>
+      {archives.length === 0 && (
+        <p className="text-sm text-gray-300">No season has finished yet.</p>
+      )}
+      <div className="flex flex-col gap-6">
+        {archives.map(archive => (
+          <section key={archive.season} className="bg-gray-800 rounded-lg p-4">
+            <h2 className="font-bold mb-1">Season {archive.season}</h2>
+            <p className="text-xs text-gray-300 mb-3">
+              {formatDate(archive.startsAt)} – {formatDate(archive.endsAt)} · {archive.placements} pixels placed
+            </p>
+            <a href={`/api/canvas/${canvas.id}/seasons/${archive.season}/image.png`}>
+              <img
+                src={`/api/canvas/${canvas.id}/seasons/${archive.season}/image.png`}
+                alt={`Final board of season ${archive.season}`}
+                className="w-full max-w-md mb-3"
+                style={{ imageRendering: "pixelated" }}
+              />
+            </a>
+            <ol className="text-sm list-decimal list-inside">
+              {archive.contributors.map(contributor => (
+                <li key={contributor.user}>
+                  {usernames.has(contributor.user) ? `@${usernames.get(contributor.user)}` : `FID ${contributor.user}`}
+                  <span className="text-gray-300">
+                    {" "}· {contributor.placed} placed, {contributor.surviving} on the final board
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </section>
+        ))}
+      </div>
+    </main>
+  );
+}
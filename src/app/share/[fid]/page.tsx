@@ -4,9 +4,8 @@ import { APP_URL, APP_NAME, APP_DESCRIPTION } from "~/lib/constants";
 import { getMiniAppEmbedMetadata } from "~/lib/utils";
 export const revalidate = 300;
 
-// This is an example of how to generate a dynamically generated share page based on fid:
-// Sharing this route e.g. exmaple.com/share/123 will generate a share page for fid 123,
-// with the image dynamically generated by the opengraph-image API route.
+// Sharing this route e.g. example.com/share/123 will generate a share page for fid 123,
+// embedding the live board cropped to what fid 123 painted, rendered by the opengraph-image API route.
 export async function generateMetadata({
   params,
 }: {
@@ -0,0 +1,45 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { APP_URL, APP_NAME, APP_DESCRIPTION, CANVAS_SIZE } from "~/lib/constants";
+import { getMiniAppEmbedMetadata } from "~/lib/utils";
+import { getViewportQuery, parseViewport } from "~/lib/viewport";
+export const revalidate = 300;
+
+type ViewportParams = Promise<{ x: string; y: string; z: string }>;
+
+// Sharing this route e.g. example.com/share/at/120/80/8 embeds the live board
+// cropped to that view, and launching the mini app opens it at the same spot.
+export async function generateMetadata({
+  params,
+}: {
+  params: ViewportParams;
+}): Promise<Metadata> {
+  const { x, y, z } = await params;
+  const viewport = parseViewport(x, y, z, CANVAS_SIZE);
+  if (!viewport) return {};
+
+  const query = getViewportQuery(viewport);
+  const imageUrl = `${APP_URL}/api/opengraph-image?${query}`;
+
+  return {
+    title: `${APP_NAME} - (${viewport.x}, ${viewport.y})`,
+    openGraph: {
+      title: APP_NAME,
+      description: APP_DESCRIPTION,
+      images: [imageUrl],
+    },
+    other: {
+      "fc:frame": JSON.stringify(getMiniAppEmbedMetadata(imageUrl, `${APP_URL}/?${query}`)),
+    },
+  };
+}
+
+export default async function ViewportSharePage({
+  params,
+}: {
+  params: ViewportParams;
+}) {
+  const { x, y, z } = await params;
+  const viewport = parseViewport(x, y, z, CANVAS_SIZE);
+  redirect(viewport ? `/?${getViewportQuery(viewport)}` : "/");
+}
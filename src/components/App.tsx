@@ -3,25 +3,31 @@
 import { useEffect } from "react";
 import { useMiniApp } from "@neynar/react";
 import { Header } from "~/components/ui/Header";
-import { HomeTab } from "~/components/ui/tabs";
+import { Footer } from "~/components/ui/Footer";
+import { HomeTab, LeaderboardTab } from "~/components/ui/tabs";
 import { AuthGuard, AuthStatus } from "~/components/ui/AuthGuard";
 import { useAuth } from "~/hooks/useAuth";
+import { DEFAULT_CANVAS_ID } from "~/lib/constants";
 
 export enum Tab {
   Home = "home",
+  Leaderboard = "leaderboard",
 }
 
 export interface AppProps {
   title?: string;
+  /** Canvas to open, see `CANVAS_ROOMS` */
+  canvasId?: string;
 }
 
 export default function App(
-  { title }: AppProps = { title: "CastCanvas" }
+  { title, canvasId = DEFAULT_CANVAS_ID }: AppProps = { title: "CastCanvas" }
 ) {
   const {
     isSDKLoaded,
     context,
     setInitialTab,
+    setActiveTab,
     currentTab,
   } = useMiniApp();
 
@@ -60,10 +66,15 @@ export default function App(
       <div className="flex-1">
         {currentTab === Tab.Home && (
           <AuthGuard>
-            <HomeTab />
+            <HomeTab canvasId={canvasId} />
           </AuthGuard>
         )}
+        {currentTab === Tab.Leaderboard && (
+          <LeaderboardTab canvasId={canvasId} />
+        )}
       </div>
+
+      <Footer activeTab={currentTab as Tab} setActiveTab={setActiveTab} />
     </div>
   );
 }
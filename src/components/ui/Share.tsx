@@ -4,12 +4,17 @@ import { useCallback, useState, useEffect } from 'react';
 import { Button } from './Button';
 import { useMiniApp } from '@neynar/react';
 import { type ComposeCast } from "@farcaster/miniapp-sdk";
-import { APP_URL } from '~/lib/constants';
+import { APP_URL, DEFAULT_CANVAS_ID } from '~/lib/constants';
+import { getViewportSharePath, type Viewport } from '~/lib/viewport';
 
 interface EmbedConfig {
   path?: string;
   url?: string;
   imageUrl?: () => Promise<string>;
+  /** Links the embed to a board position; used when no `path` is given */
+  viewport?: Viewport;
+  /** Canvas the `viewport` is on (default: the default canvas) */
+  canvasId?: string;
 }
 
 interface CastConfig extends Omit<ComposeCast.Options, 'embeds'> {
@@ -72,9 +77,11 @@ export function ShareButton({ buttonText, cast, className = '', isLoading = fals
           if (typeof embed === 'string') {
             return embed;
           }
-          if (embed.path) {
+          const path = embed.path
+            ?? (embed.viewport && getViewportSharePath(embed.viewport, embed.canvasId ?? DEFAULT_CANVAS_ID));
+          if (path) {
             const baseUrl = APP_URL || window.location.origin;
-            const url = new URL(`${baseUrl}${embed.path}`);
+            const url = new URL(`${baseUrl}${path}`);
 
             // Add UTM parameters
             url.searchParams.set('utm_source', `share-cast-${context?.user?.fid || 'unknown'}`);
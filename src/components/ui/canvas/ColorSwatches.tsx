@@ -0,0 +1,39 @@
+"use client";
+
+interface ColorSwatchesProps {
+  colors: string[];
+  selectedColor: string;
+  onSelect: (color: string) => void;
+  /** Shows a remove button on each swatch when given */
+  onRemove?: (color: string) => void;
+  columns?: 4 | 8;
+}
+
+export function ColorSwatches({ colors, selectedColor, onSelect, onRemove, columns = 4 }: ColorSwatchesProps) {
+  return (
+    <div className={`grid gap-2 ${columns === 8 ? 'grid-cols-8' : 'grid-cols-4'}`}>
+      {colors.map((color) => (
+        <div key={color} className="relative">
+          <button
+            onClick={() => onSelect(color)}
+            className={`w-8 h-8 rounded border-2 transition-all ${
+              selectedColor.toUpperCase() === color.toUpperCase() ? 'border-white scale-110' : 'border-gray-600'
+            }`}
+            style={{ backgroundColor: color }}
+            title={color}
+          />
+          {onRemove && (
+            <button
+              onClick={() => onRemove(color)}
+              className="absolute -top-1 -right-1 w-4 h-4 bg-gray-900 text-gray-300 hover:text-white rounded-full text-[10px] leading-4"
+              title={`Remove ${color}`}
+              aria-label={`Remove ${color}`}
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
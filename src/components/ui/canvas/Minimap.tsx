@@ -0,0 +1,107 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { PixelBuffer } from "~/lib/pixelBuffer";
+import type { CanvasRegion } from "~/lib/canvasImage";
+import type { ActivityHeatmap } from "~/lib/canvasActivity";
+
+// Rendered width and height of the minimap, in screen pixels
+const MINIMAP_SIZE = 128;
+
+interface MinimapProps {
+  buffer: PixelBuffer;
+  /** Bump after writing to `buffer` to redraw */
+  version: number;
+  /** Board region currently on screen */
+  view: CanvasRegion;
+  /** Called with the board coordinates to center the view on */
+  onNavigate: (x: number, y: number) => void;
+  /** Activity overlay; hidden when null */
+  heatmap: ActivityHeatmap | null;
+}
+
+function clampPercent(value: number): number {
+  return Math.max(0, Math.min(100, value));
+}
+
+export function Minimap({ buffer, version, view, onNavigate, heatmap }: MinimapProps) {
+  const boardRef = useRef<HTMLCanvasElement>(null);
+  const heatRef = useRef<HTMLCanvasElement>(null);
+  const isPressedRef = useRef(false);
+
+  useEffect(() => {
+    const ctx = boardRef.current?.getContext("2d");
+    if (!ctx) return;
+    // The main renderer consumes the buffer's dirty rect, so redraw in full
+    ctx.putImageData(new ImageData(buffer.data, buffer.size, buffer.size), 0, 0);
+  }, [buffer, version]);
+
+  useEffect(() => {
+    const ctx = heatRef.current?.getContext("2d");
+    if (!ctx || !heatmap) return;
+    ctx.clearRect(0, 0, heatmap.columns, heatmap.rows);
+    if (heatmap.max === 0) return;
+    heatmap.counts.forEach((count, index) => {
+      if (count === 0) return;
+      ctx.fillStyle = `rgba(255, 69, 0, ${0.2 + 0.6 * (count / heatmap.max)})`;
+      ctx.fillRect(index % heatmap.columns, Math.floor(index / heatmap.columns), 1, 1);
+    });
+  }, [heatmap]);
+
+  const navigate = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * buffer.size;
+    const y = ((e.clientY - rect.top) / rect.height) * buffer.size;
+    onNavigate(Math.max(0, Math.min(buffer.size, x)), Math.max(0, Math.min(buffer.size, y)));
+  };
+
+  const left = clampPercent((view.x / buffer.size) * 100);
+  const top = clampPercent((view.y / buffer.size) * 100);
+  const right = clampPercent(((view.x + view.width) / buffer.size) * 100);
+  const bottom = clampPercent(((view.y + view.height) / buffer.size) * 100);
+
+  return (
+    <div
+      className="absolute bottom-4 right-4 bg-black border-2 border-gray-600 rounded shadow-lg overflow-hidden cursor-pointer z-10"
+      style={{ width: MINIMAP_SIZE, height: MINIMAP_SIZE, touchAction: "none" }}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        isPressedRef.current = true;
+        navigate(e);
+      }}
+      onPointerMove={(e) => {
+        if (isPressedRef.current) navigate(e);
+      }}
+      onPointerUp={() => { isPressedRef.current = false; }}
+      onPointerCancel={() => { isPressedRef.current = false; }}
+      role="img"
+      aria-label="Minimap: tap to move the view"
+    >
+      <canvas
+        ref={boardRef}
+        width={buffer.size}
+        height={buffer.size}
+        className="absolute inset-0 w-full h-full"
+        style={{ imageRendering: "pixelated" }}
+      />
+      {heatmap && (
+        <canvas
+          ref={heatRef}
+          width={heatmap.columns}
+          height={heatmap.rows}
+          className="absolute inset-0 w-full h-full pointer-events-none"
+        />
+      )}
+      <div
+        className="absolute border border-white pointer-events-none"
+        style={{
+          left: `${left}%`,
+          top: `${top}%`,
+          width: `${right - left}%`,
+          height: `${bottom - top}%`,
+          boxShadow: "0 0 0 1px rgba(0, 0, 0, 0.6)",
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { getBufferColor, takeDirtyRect, type PixelBuffer } from "~/lib/pixelBuffer";
+import type { Point } from "~/lib/drawingTools";
+
+interface PixelCanvasRendererProps {
+  buffer: PixelBuffer;
+  /** Bump after writing to `buffer` to repaint its dirty region */
+  version: number;
+  zoom: number;
+  offset: { x: number; y: number };
+  /** Pixels a drawing tool is about to place, drawn translucently over the board */
+  preview?: { points: Point[]; color: string } | null;
+  /** Keyboard cursor, outlined over the board */
+  cursor?: Point | null;
+}
+
+interface HoveredPixel {
+  x: number;
+  y: number;
+  color: string;
+  left: number;
+  top: number;
+}
+
+export function PixelCanvasRenderer({ buffer, version, zoom, offset, preview, cursor }: PixelCanvasRendererProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const imageDataRef = useRef<ImageData | null>(null);
+  const [hovered, setHovered] = useState<HoveredPixel | null>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+
+    // ImageData shares the buffer's memory, so writes show up without copying
+    if (imageDataRef.current?.data !== buffer.data) {
+      imageDataRef.current = new ImageData(buffer.data, buffer.size, buffer.size);
+      takeDirtyRect(buffer);
+      ctx.putImageData(imageDataRef.current, 0, 0);
+      return;
+    }
+
+    const dirty = takeDirtyRect(buffer);
+    if (dirty) {
+      ctx.putImageData(imageDataRef.current, 0, 0, dirty.x, dirty.y, dirty.width, dirty.height);
+    }
+  }, [buffer, version]);
+
+  useEffect(() => {
+    const ctx = previewRef.current?.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, buffer.size, buffer.size);
+    if (!preview) return;
+    ctx.fillStyle = preview.color;
+    for (const point of preview.points) {
+      ctx.fillRect(point.x, point.y, 1, 1);
+    }
+  }, [buffer.size, preview]);
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const left = e.clientX - rect.left;
+    const top = e.clientY - rect.top;
+    const x = Math.floor((left - offset.x) / zoom);
+    const y = Math.floor((top - offset.y) / zoom);
+    const color = getBufferColor(buffer, x, y);
+    setHovered(color ? { x, y, color, left, top } : null);
+  };
+
+  return (
+    <div
+      className="absolute inset-0"
+      onMouseMove={handleMouseMove}
+      onMouseLeave={() => setHovered(null)}
+    >
+      <canvas
+        ref={canvasRef}
+        width={buffer.size}
+        height={buffer.size}
+        className="absolute left-0 top-0"
+        style={{
+          transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})`,
+          transformOrigin: "0 0",
+          imageRendering: "pixelated",
+        }}
+      />
+      <canvas
+        ref={previewRef}
+        width={buffer.size}
+        height={buffer.size}
+        className="absolute left-0 top-0 pointer-events-none opacity-70"
+        style={{
+          transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})`,
+          transformOrigin: "0 0",
+          imageRendering: "pixelated",
+        }}
+      />
+      {zoom > 2 && (
+        <div
+          className="absolute left-0 top-0 pointer-events-none"
+          style={{
+            width: buffer.size * zoom,
+            height: buffer.size * zoom,
+            transform: `translate(${offset.x}px, ${offset.y}px)`,
+            backgroundImage: `
+              linear-gradient(rgba(255,255,255,0.1) 1px, transparent 1px),
+              linear-gradient(90deg, rgba(255,255,255,0.1) 1px, transparent 1px)
+            `,
+            backgroundSize: `${zoom}px ${zoom}px`
+          }}
+        />
+      )}
+      {cursor && (
+        <div
+          className="absolute left-0 top-0 pointer-events-none border-2 border-white"
+          style={{
+            width: Math.max(zoom, 4),
+            height: Math.max(zoom, 4),
+            transform: `translate(${offset.x + cursor.x * zoom}px, ${offset.y + cursor.y * zoom}px)`,
+            boxShadow: "0 0 0 1px black",
+          }}
+        />
+      )}
+      {hovered && (
+        <div
+          className="absolute pointer-events-none bg-black bg-opacity-70 text-white px-2 py-1 rounded text-xs whitespace-nowrap"
+          style={{ left: hovered.left + 12, top: hovered.top + 12 }}
+        >
+          {hovered.color} at ({hovered.x}, {hovered.y})
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Pixel } from "~/lib/canvasStore";
+
+interface PixelInspectorProps {
+  canvasId: string;
+  x: number;
+  y: number;
+  onClose: () => void;
+}
+
+interface Painter {
+  fid: number;
+  username: string;
+  display_name?: string;
+  pfp_url?: string;
+}
+
+// When a history entry was painted, or, if nobody painted it, how it got there
+function describePlacement(pixel: Pixel): string {
+  // Restores carry the timestamp of the pixel they put back
+  if (pixel.kind === 'restore') return pixel.color === null ? 'Cleared by undo' : 'Restored by undo';
+  const time = new Date(pixel.timestamp).toLocaleString();
+  return pixel.kind === 'recolor' ? `Recolored by palette change, ${time}` : time;
+}
+
+export function PixelInspector({ canvasId, x, y, onClose }: PixelInspectorProps) {
+  const [history, setHistory] = useState<Pixel[] | null>(null);
+  const [painters, setPainters] = useState<Record<string, Painter>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setHistory(null);
+    setError(null);
+
+    const loadHistory = async () => {
+      try {
+        const response = await fetch(`/api/canvas/${canvasId}/pixel?x=${x}&y=${y}`);
+        const data = await response.json();
+        if (!data.success) throw new Error(data.error);
+        if (cancelled) return;
+        setHistory(data.history);
+
+        const fids = Array.from(new Set((data.history as Pixel[]).map(pixel => pixel.user)));
+        if (fids.length === 0) return;
+        const usersResponse = await fetch(`/api/users?fids=${fids.join(',')}`);
+        const usersData = await usersResponse.json();
+        if (cancelled || !usersData.users) return;
+        setPainters(Object.fromEntries(
+          (usersData.users as Painter[]).map(painter => [String(painter.fid), painter])
+        ));
+      } catch (_error) {
+        console.error('Failed to load pixel history:', _error);
+        if (!cancelled) setError('Failed to load pixel history');
+      }
+    };
+    loadHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canvasId, x, y]);
+
+  return (
+    <div className="absolute bottom-16 left-4 w-64 max-h-80 overflow-y-auto bg-gray-800 text-white p-3 rounded-lg shadow-xl z-10">
+      <div className="flex justify-between items-center mb-2">
+        <span className="font-bold text-sm">Pixel ({x}, {y})</span>
+        <button onClick={onClose} className="text-gray-400 hover:text-white text-sm" title="Close">
+          ✕
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {!error && !history && <p className="text-xs text-gray-400">Loading...</p>}
+      {history?.length === 0 && <p className="text-xs text-gray-400">Nobody has painted here yet.</p>}
+      <ul className="space-y-2">
+        {history?.map(pixel => {
+          const painter = painters[pixel.user];
+          return (
+            <li key={pixel.seq} className="flex items-center gap-2">
+              <span
+                className="w-4 h-4 rounded border border-gray-600 flex-shrink-0"
+                style={{ backgroundColor: pixel.color ?? 'transparent' }}
+                title={pixel.color ?? 'Cleared by undo'}
+              />
+              {painter?.pfp_url && (
+                <img src={painter.pfp_url} alt="" className="w-6 h-6 rounded-full flex-shrink-0" />
+              )}
+              <div className="min-w-0">
+                <p className="text-xs truncate">
+                  {painter ? `@${painter.username}` : `FID ${pixel.user}`}
+                </p>
+                <p className="text-xs text-gray-400">{describePlacement(pixel)}</p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { REPLAY_SPEEDS } from "~/hooks/useCanvasReplay";
+
+interface ReplayControlsProps {
+  position: number;
+  /** Position of the blank board the replay starts from */
+  start: number;
+  total: number;
+  isPlaying: boolean;
+  speed: number;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (position: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+export function ReplayControls({
+  position,
+  start,
+  total,
+  isPlaying,
+  speed,
+  onPlay,
+  onPause,
+  onSeek,
+  onSpeedChange,
+  onExit,
+}: ReplayControlsProps) {
+  const current = Math.max(start, Math.min(position, total));
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-80 max-w-[90%] bg-gray-800 text-white p-3 rounded-lg shadow-xl z-10">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={isPlaying ? onPause : onPlay}
+          className="w-8 h-8 bg-gray-700 hover:bg-gray-600 rounded flex items-center justify-center"
+          title={isPlaying ? "Pause" : "Play"}
+        >
+          {isPlaying ? "⏸" : "▶"}
+        </button>
+        <input
+          type="range"
+          min={start}
+          max={total}
+          value={current}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="flex-1"
+          aria-label="Replay position"
+        />
+        <select
+          value={speed}
+          onChange={(e) => onSpeedChange(Number(e.target.value))}
+          className="bg-gray-700 rounded text-xs px-1 py-1"
+          aria-label="Replay speed"
+        >
+          {REPLAY_SPEEDS.map((value) => (
+            <option key={value} value={value}>{value}x</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex justify-between items-center mt-2 text-xs text-gray-300">
+        <span>Placement {current - start} / {total - start}</span>
+        <button onClick={onExit} className="text-gray-300 hover:text-white">
+          Back to live
+        </button>
+      </div>
+    </div>
+  );
+}
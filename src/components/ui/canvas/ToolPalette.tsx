@@ -0,0 +1,98 @@
+"use client";
+
+import type { DrawingTool } from "~/lib/drawingTools";
+
+const TOOLS: { tool: DrawingTool; icon: string; label: string }[] = [
+  { tool: "pencil", icon: "✏️", label: "Pencil" },
+  { tool: "line", icon: "📏", label: "Line" },
+  { tool: "rectangle", icon: "▭", label: "Rectangle" },
+  { tool: "fill", icon: "🪣", label: "Flood fill" },
+];
+
+interface ToolPaletteProps {
+  tool: DrawingTool;
+  onToolChange: (tool: DrawingTool) => void;
+  /** Pixels and quota cost of the shape waiting to be placed, if any */
+  pending: { count: number; cost: number } | null;
+  remainingPixels: number;
+  /** Placing is disabled while the user's placement cooldown runs */
+  cooldownSecondsLeft: number;
+  /** Whether touch taps wait for confirmation; null hides the toggle */
+  confirmTaps: boolean | null;
+  onConfirmTapsChange: (enabled: boolean) => void;
+  isPlacing: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function ToolPalette({
+  tool,
+  onToolChange,
+  pending,
+  remainingPixels,
+  cooldownSecondsLeft,
+  confirmTaps,
+  onConfirmTapsChange,
+  isPlacing,
+  onConfirm,
+  onCancel,
+}: ToolPaletteProps) {
+  const canAfford = pending !== null && pending.cost <= remainingPixels;
+
+  return (
+    <div className="absolute top-4 left-4 flex flex-col gap-2 z-10">
+      <div className="flex flex-col gap-2">
+        {TOOLS.map(({ tool: value, icon, label }) => (
+          <button
+            key={value}
+            onClick={() => onToolChange(value)}
+            className={`w-10 h-10 text-white rounded-lg shadow-lg flex items-center justify-center text-lg ${
+              tool === value ? "bg-blue-600 hover:bg-blue-700" : "bg-gray-800 hover:bg-gray-700"
+            }`}
+            title={label}
+            aria-label={label}
+            aria-pressed={tool === value}
+          >
+            {icon}
+          </button>
+        ))}
+        {confirmTaps !== null && (
+          <button
+            onClick={() => onConfirmTapsChange(!confirmTaps)}
+            className={`w-10 h-10 text-white rounded-lg shadow-lg flex items-center justify-center text-lg ${
+              confirmTaps ? "bg-blue-600 hover:bg-blue-700" : "bg-gray-800 hover:bg-gray-700"
+            }`}
+            title={confirmTaps ? "Taps ask before placing" : "Taps place immediately"}
+            aria-label="Confirm before placing"
+            aria-pressed={confirmTaps}
+          >
+            ✋
+          </button>
+        )}
+      </div>
+      {pending && (
+        <div className="w-44 bg-gray-800 text-white p-3 rounded-lg shadow-xl text-sm">
+          <div>{pending.count} {pending.count === 1 ? "pixel" : "pixels"}</div>
+          <div className={canAfford ? "text-gray-300" : "text-red-400"}>
+            Costs {pending.cost} of your {remainingPixels}
+          </div>
+          <div className="flex gap-2 mt-2">
+            <button
+              onClick={onConfirm}
+              disabled={!canAfford || pending.cost === 0 || cooldownSecondsLeft > 0 || isPlacing}
+              className="flex-1 px-2 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded"
+            >
+              {isPlacing ? "Placing..." : cooldownSecondsLeft > 0 ? `Wait ${cooldownSecondsLeft}s` : "Place"}
+            </button>
+            <button
+              onClick={onCancel}
+              className="flex-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
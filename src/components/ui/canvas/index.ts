@@ -0,0 +1,6 @@
+export { PixelCanvasRenderer } from './PixelCanvasRenderer';
+export { PixelInspector } from './PixelInspector';
+export { ReplayControls } from './ReplayControls';
+export { ToolPalette } from './ToolPalette';
+export { ColorSwatches } from './ColorSwatches';
+export { Minimap } from './Minimap';
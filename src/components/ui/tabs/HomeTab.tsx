@@ -1,10 +1,48 @@
 "use client";
 
-import { useState, useRef, useEffect, useCallback } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { useAccount, useWriteContract, useChainId, useSwitchChain } from "wagmi";
 import { parseEther } from "viem";
-import { CANVAS_SIZE, DAILY_PIXEL_LIMIT, PIXELS_PER_PURCHASE, PRICE_PER_PURCHASE, REQUIRED_CHAIN_ID } from "~/lib/constants";
+import {
+  APP_NAME,
+  MAX_BATCH_PIXELS,
+  PIXELS_PER_PURCHASE,
+  PRICE_PER_PURCHASE,
+  REQUIRED_CHAIN_ID,
+  UNDO_WINDOW_MS,
+} from "~/lib/constants";
 import { useAuth } from "~/hooks/useAuth";
+import { useCanvasStream } from "~/hooks/useCanvasStream";
+import { useCanvasReplay } from "~/hooks/useCanvasReplay";
+import { useColorPreferences } from "~/hooks/useColorPreferences";
+import { useCountdown } from "~/hooks/useCountdown";
+import { useCanvasGestures } from "~/hooks/useCanvasGestures";
+import { getItem, setItem } from "~/lib/localStorage";
+import { isMobile } from "~/lib/devices";
+import type { Pixel } from "~/lib/canvasStore";
+import { createPixelBuffer, getBufferColor, setBufferPixel } from "~/lib/pixelBuffer";
+import { decodeCanvasSnapshot } from "~/lib/canvasSnapshot";
+import {
+  getCanvasConfig,
+  getCanvasStatus,
+  getCurrentSeason,
+  getDefaultCanvasConfig,
+  getNearestPaletteColor,
+  isColorAllowed,
+} from "~/lib/canvasConfig";
+import type { ActivityHeatmap } from "~/lib/canvasActivity";
+import type { CanvasChannel } from "~/lib/channels";
+import {
+  getFloodFillPoints,
+  getLinePoints,
+  getPlacementCost,
+  getRectanglePoints,
+  type DrawingTool,
+  type Point,
+} from "~/lib/drawingTools";
+import { MAX_ZOOM, MIN_ZOOM, parseViewportSearchParams, type Viewport } from "~/lib/viewport";
+import { ColorSwatches, Minimap, PixelCanvasRenderer, PixelInspector, ReplayControls, ToolPalette } from "~/components/ui/canvas";
+import { ShareButton } from "~/components/ui/Share";
 
 const CONTRACT_ABI = [
   "function purchasePixels() external payable",
@@ -16,12 +54,36 @@ const CONTRACT_ABI = [
 
 const CONTRACT_ADDRESS = "0x0000000000000000000000000000000000000000";
 
-interface Pixel {
-  x: number;
-  y: number;
-  color: string;
-  timestamp: number;
-  user: string;
+// Output pixels per board pixel for the "Download" PNG
+const DOWNLOAD_SCALE = 4;
+
+const CONFIRM_TOUCH_PLACEMENT_KEY = `${APP_NAME}:confirmTouchPlacement`;
+
+// Cursor movement per key: arrow keys and WASD, Shift moves further
+const KEYBOARD_MOVES: Record<string, [number, number]> = {
+  ArrowUp: [0, -1], w: [0, -1],
+  ArrowDown: [0, 1], s: [0, 1],
+  ArrowLeft: [-1, 0], a: [-1, 0],
+  ArrowRight: [1, 0], d: [1, 0],
+};
+const KEYBOARD_FAST_STEP = 10;
+
+// How often the minimap's activity heatmap is refreshed while shown
+const HEATMAP_REFRESH_MS = 30_000;
+
+// Delay before the URL is updated to match the current view
+const VIEWPORT_URL_DEBOUNCE_MS = 300;
+
+// Canvas size logic: fit within 90vw/90vh, but not larger than canvasSize*zoom
+function getCanvasDisplaySize(canvasSize: number, zoom: number): number {
+  const vw = typeof window !== 'undefined' ? window.innerWidth : 800;
+  const vh = typeof window !== 'undefined' ? window.innerHeight : 600;
+  return Math.min(canvasSize * zoom, Math.floor(Math.min(vw, vh) * 0.9));
+}
+
+// Pixels of the line or rectangle tool's shape between two corners
+function getShapePoints(tool: DrawingTool, from: Point, to: Point): Point[] {
+  return tool === 'rectangle' ? getRectanglePoints(from, to) : getLinePoints(from, to);
 }
 
 const DEFAULT_COLORS = [
@@ -30,19 +92,59 @@ const DEFAULT_COLORS = [
   "#008000", "#FFC0CB", "#A52A2A", "#808080", "#FFD700"
 ];
 
-export function HomeTab() {
+interface HomeTabProps {
+  /** Canvas to show, see `CANVAS_ROOMS` */
+  canvasId: string;
+}
+
+export function HomeTab({ canvasId }: HomeTabProps) {
+  const canvas = getCanvasConfig(canvasId) ?? getDefaultCanvasConfig();
+  const canvasSize = canvas.size;
   const [selectedColor, setSelectedColor] = useState("#FFFFFF");
   const [customColor, setCustomColor] = useState("#FFFFFF");
+  // Colors the canvas accepts; null while loading or when any color is allowed
+  const [palette, setPalette] = useState<string[] | null>(null);
+  // Channel the canvas is bound to, loaded with the config
+  const [channel, setChannel] = useState<CanvasChannel | null>(null);
+  // Whether the user may paint on a channel canvas; null if unknown or not a channel canvas
+  const [isChannelMember, setIsChannelMember] = useState<boolean | null>(null);
   const [zoom, setZoom] = useState(4); // Start zoomed in
   const [offset, setOffset] = useState({ x: 0, y: 0 });
-  const [isDragging, setIsDragging] = useState(false);
-  const [lastDragPos, setLastDragPos] = useState({ x: 0, y: 0 });
-  const [pixels, setPixels] = useState<Pixel[]>([]);
-  const [remainingPixels, setRemainingPixels] = useState(DAILY_PIXEL_LIMIT);
+  const [pixelBuffer] = useState(() => createPixelBuffer(canvasSize));
+  const [bufferVersion, setBufferVersion] = useState(0);
+  const [canvasSequence, setCanvasSequence] = useState<number | null>(null);
+  const [remainingPixels, setRemainingPixels] = useState(canvas.dailyLimit);
   const [isLoading, setIsLoading] = useState(false);
   const [purchaseError, setPurchaseError] = useState("");
   const [showColorPalette, setShowColorPalette] = useState(false);
   const [showColorPicker, setShowColorPicker] = useState(false);
+  const [isInspecting, setIsInspecting] = useState(false);
+  const [inspectedPixel, setInspectedPixel] = useState<{ x: number; y: number } | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [tool, setTool] = useState<DrawingTool>('pencil');
+  // First corner of a line or rectangle, set by the first click
+  const [toolAnchor, setToolAnchor] = useState<Point | null>(null);
+  const [toolPreview, setToolPreview] = useState<Point[] | null>(null);
+  // Shape waiting for the user to confirm its cost
+  const [pendingPoints, setPendingPoints] = useState<Point[] | null>(null);
+  const [isPlacingBatch, setIsPlacingBatch] = useState(false);
+  // Eyedropper: the next click on the board picks that pixel's color
+  const [isPickingColor, setIsPickingColor] = useState(false);
+  // On touch devices, taps with the pencil wait for a confirmation before placing
+  const [isTouchDevice, setIsTouchDevice] = useState(false);
+  const [confirmTouchPlacement, setConfirmTouchPlacement] = useState(true);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  // Board pixel selected with the keyboard; shown while the canvas has focus
+  const [keyboardCursor, setKeyboardCursor] = useState<Point | null>(null);
+  const [isCanvasFocused, setIsCanvasFocused] = useState(false);
+  const [heatmap, setHeatmap] = useState<ActivityHeatmap | null>(null);
+  // When the last placement stops being undoable
+  const [undoDeadline, setUndoDeadline] = useState<number | null>(null);
+  const [isUndoing, setIsUndoing] = useState(false);
+  // Placement cooldown reported by the API; placing is disabled until then
+  const [nextPlacementAt, setNextPlacementAt] = useState<number | null>(null);
+  const undoSecondsLeft = useCountdown(undoDeadline);
+  const cooldownSecondsLeft = useCountdown(nextPlacementAt);
 
   const canvasRef = useRef<HTMLDivElement>(null);
   const colorInputRef = useRef<HTMLInputElement>(null);
@@ -50,31 +152,143 @@ export function HomeTab() {
   const chainId = useChainId();
   const { switchChain } = useSwitchChain();
   const { writeContract, isPending, error } = useWriteContract();
-  const { user, signIn } = useAuth();
+  const { user, signIn, getToken } = useAuth();
+  const {
+    preferences: colorPreferences,
+    recordColor,
+    saveColor,
+    removeColor,
+  } = useColorPreferences(user?.fid ?? null, getToken);
+
+  const applyPixels = useCallback((placed: Pixel[]) => {
+    for (const pixel of placed) {
+      setBufferPixel(pixelBuffer, pixel.x, pixel.y, pixel.color);
+    }
+    setBufferVersion(version => version + 1);
+  }, [pixelBuffer]);
+
+  const loadPixels = useCallback(async () => {
+    try {
+      // The browser revalidates with the snapshot's ETag and reuses its cached copy on a 304
+      const response = await fetch(`/api/canvas/${canvasId}/snapshot`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const sequence = decodeCanvasSnapshot(await response.arrayBuffer(), pixelBuffer);
+      setBufferVersion(version => version + 1);
+      setCanvasSequence(sequence);
+    } catch (_error) {
+      console.error('Failed to load pixels:', _error);
+    }
+  }, [canvasId, pixelBuffer]);
+
+  useEffect(() => {
+    loadPixels();
+  }, [loadPixels]);
 
   useEffect(() => {
-    const loadPixels = async () => {
+    if (!showHeatmap) {
+      setHeatmap(null);
+      return;
+    }
+    const loadHeatmap = async () => {
       try {
-        const response = await fetch('/api/canvas');
+        const response = await fetch(`/api/canvas/${canvasId}/activity`);
         const data = await response.json();
         if (data.success) {
-          setPixels(data.pixels);
+          setHeatmap(data.heatmap);
         }
       } catch (_error) {
-        console.error('Failed to load pixels:', _error);
+        console.error('Failed to load activity heatmap:', _error);
       }
     };
-    loadPixels();
+    loadHeatmap();
+    const interval = setInterval(loadHeatmap, HEATMAP_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [canvasId, showHeatmap]);
+
+  useEffect(() => {
+    setIsTouchDevice(isMobile());
+    setConfirmTouchPlacement(getItem<boolean>(CONFIRM_TOUCH_PLACEMENT_KEY) ?? true);
   }, []);
 
   useEffect(() => {
-    if (address) {
+    const loadConfig = async () => {
+      try {
+        const response = await fetch(`/api/canvas/${canvasId}/config`);
+        const data = await response.json();
+        if (data.success) {
+          setChannel(data.channel);
+        }
+        if (data.success && data.config.palette) {
+          const allowed: string[] = data.config.palette;
+          setPalette(allowed);
+          setSelectedColor(color => isColorAllowed(allowed, color) ? color : getNearestPaletteColor(allowed, color));
+        }
+      } catch (_error) {
+        console.error('Failed to load canvas config:', _error);
+      }
+    };
+    loadConfig();
+  }, [canvasId]);
+
+  // Open at the position given by a deep link (?x=&y=&z=)
+  useEffect(() => {
+    const linked = parseViewportSearchParams(new URLSearchParams(window.location.search), canvasSize);
+    if (!linked) return;
+    const center = getCanvasDisplaySize(canvasSize, linked.z) / 2;
+    setZoom(linked.z);
+    setOffset({
+      x: center - (linked.x + 0.5) * linked.z,
+      y: center - (linked.y + 0.5) * linked.z,
+    });
+  }, [canvasSize]);
+
+  // Board pixel at the center of the view
+  const viewport = useMemo((): Viewport => {
+    const center = getCanvasDisplaySize(canvasSize, zoom) / 2;
+    const clampToBoard = (value: number) => Math.max(0, Math.min(canvasSize - 1, Math.floor(value)));
+    return {
+      x: clampToBoard((center - offset.x) / zoom),
+      y: clampToBoard((center - offset.y) / zoom),
+      z: Math.round(zoom * 10) / 10,
+    };
+  }, [canvasSize, zoom, offset]);
+
+  // Keep the URL in sync with the view so it can be copied or reloaded
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const url = new URL(window.location.href);
+      // Other params, such as launch and tracking ones, are left alone
+      url.searchParams.set('x', String(viewport.x));
+      url.searchParams.set('y', String(viewport.y));
+      url.searchParams.set('z', String(viewport.z));
+      window.history.replaceState(window.history.state, '', url);
+    }, VIEWPORT_URL_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [viewport]);
+
+  const streamHandlers = useMemo(() => ({
+    onPixels: applyPixels,
+    onResync: () => {
+      setCanvasSequence(null);
+      loadPixels();
+    },
+  }), [applyPixels, loadPixels]);
+
+  useCanvasStream(canvasId, canvasSequence, streamHandlers);
+  const replay = useCanvasReplay(canvasId, canvasSize, isReplaying);
+
+  useEffect(() => {
+    if (user) {
       const loadUserPixels = async () => {
         try {
-          const response = await fetch(`/api/canvas/user?address=${address}`);
+          const response = await fetch(`/api/canvas/${canvasId}/user?fid=${user.fid}`);
           const data = await response.json();
           if (data.success) {
-            setRemainingPixels(data.remainingPixels);
+            setRemainingPixels(data.quota.remaining);
+            setNextPlacementAt(data.nextPlacementAt);
+            setIsChannelMember(data.channelMember);
           }
         } catch (_error) {
           console.error('Failed to load user pixels:', _error);
@@ -82,9 +296,10 @@ export function HomeTab() {
       };
       loadUserPixels();
     }
-  }, [address]);
+  }, [canvasId, user]);
 
   const handlePixelPlace = useCallback(async (x: number, y: number) => {
+    if (cooldownSecondsLeft > 0) return;
     if (remainingPixels <= 0) {
       alert("You've used all your daily pixels! Purchase more to continue.");
       return;
@@ -94,73 +309,276 @@ export function HomeTab() {
       return;
     }
     try {
-      const response = await fetch('/api/canvas', {
+      const token = await getToken();
+      if (!token) {
+        alert('Please sign in again to place pixels.');
+        return;
+      }
+      const response = await fetch(`/api/canvas/${canvasId}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
         },
         body: JSON.stringify({
           x: Math.floor(x),
           y: Math.floor(y),
           color: selectedColor,
-          user: user.fid
         }),
       });
       const data = await response.json();
       if (data.success) {
-        setPixels(prev => [...prev.filter(p => !(p.x === x && p.y === y)), data.pixel]);
-        setRemainingPixels(data.remainingPixels);
+        applyPixels([data.pixel]);
+        setRemainingPixels(data.quota.remaining);
+        setNextPlacementAt(data.nextPlacementAt);
+        setUndoDeadline(Date.now() + UNDO_WINDOW_MS);
+        recordColor(selectedColor);
+      } else if (data.code === 'cooldown') {
+        setNextPlacementAt(data.nextPlacementAt);
       } else {
+        if (data.quota) {
+          setRemainingPixels(data.quota.remaining);
+        }
         alert(data.error || 'Failed to place pixel');
       }
     } catch (_error) {
       console.error('Failed to place pixel:', _error);
       alert('Failed to place pixel. Please try again.');
     }
-  }, [selectedColor, remainingPixels, user, signIn]);
+  }, [canvasId, selectedColor, remainingPixels, cooldownSecondsLeft, user, signIn, getToken, applyPixels, recordColor]);
+
+  const cancelTool = useCallback(() => {
+    setToolAnchor(null);
+    setToolPreview(null);
+    setPendingPoints(null);
+  }, []);
+
+  const handleBatchPlace = useCallback(async () => {
+    if (!pendingPoints) return;
+    if (!user) {
+      await signIn();
+      return;
+    }
+    setIsPlacingBatch(true);
+    try {
+      const token = await getToken();
+      if (!token) {
+        alert('Please sign in again to place pixels.');
+        return;
+      }
+      const response = await fetch(`/api/canvas/${canvasId}/batch`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          pixels: pendingPoints.map(point => ({ ...point, color: selectedColor })),
+        }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        applyPixels(data.pixels);
+        setRemainingPixels(data.quota.remaining);
+        setNextPlacementAt(data.nextPlacementAt);
+        setUndoDeadline(Date.now() + UNDO_WINDOW_MS);
+        recordColor(selectedColor);
+        cancelTool();
+      } else if (data.code === 'cooldown') {
+        setNextPlacementAt(data.nextPlacementAt);
+      } else {
+        if (data.quota) {
+          setRemainingPixels(data.quota.remaining);
+        }
+        alert(data.error || 'Failed to place pixels');
+      }
+    } catch (_error) {
+      console.error('Failed to place pixels:', _error);
+      alert('Failed to place pixels. Please try again.');
+    } finally {
+      setIsPlacingBatch(false);
+    }
+  }, [canvasId, pendingPoints, selectedColor, user, signIn, getToken, applyPixels, recordColor, cancelTool]);
+
+  const handleUndo = useCallback(async () => {
+    setIsUndoing(true);
+    try {
+      const token = await getToken();
+      if (!token) {
+        alert('Please sign in again to undo.');
+        return;
+      }
+      const response = await fetch(`/api/canvas/${canvasId}/undo`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const data = await response.json();
+      if (data.success) {
+        applyPixels(data.pixels);
+        setRemainingPixels(data.quota.remaining);
+        setNextPlacementAt(data.nextPlacementAt);
+      } else {
+        alert(data.error || 'Failed to undo');
+      }
+      // Either way there is nothing left to undo
+      setUndoDeadline(null);
+    } catch (_error) {
+      console.error('Failed to undo:', _error);
+      alert('Failed to undo. Please try again.');
+    } finally {
+      setIsUndoing(false);
+    }
+  }, [canvasId, getToken, applyPixels]);
+
+  // Recomputed on every render so the cost follows other users painting over the shape
+  const pendingPlacement = pendingPoints && {
+    count: pendingPoints.length,
+    cost: getPlacementCost(pixelBuffer, pendingPoints, selectedColor),
+  };
 
-  const handleCanvasClick = useCallback((e: React.MouseEvent) => {
-    if (!canvasRef.current) return;
+  const toolOverlay = useMemo(() => {
+    const points = pendingPoints ?? toolPreview;
+    return points ? { points, color: selectedColor } : null;
+  }, [pendingPoints, toolPreview, selectedColor]);
+
+  // Board pixel under the pointer, or null outside the board
+  const getBoardPoint = useCallback((e: { clientX: number; clientY: number }): Point | null => {
+    if (!canvasRef.current) return null;
     const rect = canvasRef.current.getBoundingClientRect();
-    const x = (e.clientX - rect.left - offset.x) / zoom;
-    const y = (e.clientY - rect.top - offset.y) / zoom;
-    if (x >= 0 && x < CANVAS_SIZE && y >= 0 && y < CANVAS_SIZE) {
-      handlePixelPlace(x, y);
+    const x = Math.floor((e.clientX - rect.left - offset.x) / zoom);
+    const y = Math.floor((e.clientY - rect.top - offset.y) / zoom);
+    return x >= 0 && x < canvasSize && y >= 0 && y < canvasSize ? { x, y } : null;
+  }, [canvasSize, offset, zoom]);
+
+  // What a tap, click or Enter on `point` does depends on the active mode and tool
+  const activatePoint = useCallback((point: Point, isTouch: boolean) => {
+    if (isReplaying) return;
+    if (isPickingColor) {
+      const color = getBufferColor(pixelBuffer, point.x, point.y);
+      if (color) setSelectedColor(color);
+      setIsPickingColor(false);
+    } else if (isInspecting) {
+      setInspectedPixel(point);
+    } else if (pendingPoints) {
+      // The pending shape has to be placed or cancelled first
+    } else if (tool === 'pencil' && isTouch && confirmTouchPlacement) {
+      setPendingPoints([point]);
+    } else if (tool === 'pencil') {
+      handlePixelPlace(point.x, point.y);
+    } else if (tool === 'fill') {
+      const area = getFloodFillPoints(pixelBuffer, point, MAX_BATCH_PIXELS);
+      if (area) {
+        setPendingPoints(area);
+      } else {
+        alert(`That area is larger than ${MAX_BATCH_PIXELS} pixels.`);
+      }
+    } else if (!toolAnchor) {
+      setToolAnchor(point);
+      setToolPreview([point]);
+    } else {
+      setPendingPoints(getShapePoints(tool, toolAnchor, point));
+      setToolAnchor(null);
+      setToolPreview(null);
     }
-  }, [offset, zoom, handlePixelPlace]);
+  }, [
+    isReplaying,
+    isPickingColor,
+    isInspecting,
+    pendingPoints,
+    tool,
+    confirmTouchPlacement,
+    toolAnchor,
+    pixelBuffer,
+    handlePixelPlace,
+  ]);
 
-  const handleMouseDown = useCallback((e: React.MouseEvent) => {
-    setIsDragging(true);
-    setLastDragPos({ x: e.clientX, y: e.clientY });
-  }, []);
+  const handleCanvasTap = useCallback((e: React.PointerEvent) => {
+    const point = getBoardPoint(e);
+    if (point) activatePoint(point, e.pointerType === 'touch');
+  }, [getBoardPoint, activatePoint]);
 
-  const handleMouseMove = useCallback((e: React.MouseEvent) => {
-    if (!isDragging) return;
-    const deltaX = e.clientX - lastDragPos.x;
-    const deltaY = e.clientY - lastDragPos.y;
-    setOffset(prev => ({ x: prev.x + deltaX, y: prev.y + deltaY }));
-    setLastDragPos({ x: e.clientX, y: e.clientY });
-  }, [isDragging, lastDragPos]);
+  const moveKeyboardCursor = useCallback((point: Point) => {
+    setKeyboardCursor(point);
+    if (toolAnchor) setToolPreview(getShapePoints(tool, toolAnchor, point));
+    // Recenter on the cursor once it leaves the screen
+    const displaySize = getCanvasDisplaySize(canvasSize, zoom);
+    const left = point.x * zoom + offset.x;
+    const top = point.y * zoom + offset.y;
+    if (left < 0 || top < 0 || left + zoom > displaySize || top + zoom > displaySize) {
+      setOffset({
+        x: displaySize / 2 - (point.x + 0.5) * zoom,
+        y: displaySize / 2 - (point.y + 0.5) * zoom,
+      });
+    }
+  }, [canvasSize, toolAnchor, tool, zoom, offset]);
 
-  const handleMouseUp = useCallback(() => {
-    setIsDragging(false);
-  }, []);
+  const handleCanvasKeyDown = useCallback((e: React.KeyboardEvent) => {
+    const cursor = keyboardCursor ?? { x: viewport.x, y: viewport.y };
+    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+    const step = e.shiftKey ? KEYBOARD_FAST_STEP : 1;
+    const move = KEYBOARD_MOVES[key];
 
-  const handleWheel = useCallback((e: React.WheelEvent) => {
-    if (!canvasRef.current) return;
+    if (move) {
+      moveKeyboardCursor({
+        x: Math.max(0, Math.min(canvasSize - 1, cursor.x + move[0] * step)),
+        y: Math.max(0, Math.min(canvasSize - 1, cursor.y + move[1] * step)),
+      });
+    } else if (key === 'Enter' || key === ' ') {
+      if (pendingPoints) {
+        handleBatchPlace();
+      } else {
+        setKeyboardCursor(cursor);
+        activatePoint(cursor, false);
+      }
+    } else if (key === 'Escape') {
+      cancelTool();
+      setIsPickingColor(false);
+    } else if (/^[0-9]$/.test(key)) {
+      // 1-9 pick the first nine colors, 0 the tenth
+      const color = (palette ?? DEFAULT_COLORS)[(Number(key) + 9) % 10];
+      if (color) setSelectedColor(color);
+    } else if (key === '+' || key === '=' || key === '-') {
+      // Zoom around the cursor so it stays put on screen
+      const newZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, key === '-' ? zoom / 1.2 : zoom * 1.2));
+      const screenX = (cursor.x + 0.5) * zoom + offset.x;
+      const screenY = (cursor.y + 0.5) * zoom + offset.y;
+      setZoom(newZoom);
+      setOffset({
+        x: screenX - (cursor.x + 0.5) * newZoom,
+        y: screenY - (cursor.y + 0.5) * newZoom,
+      });
+    } else {
+      return;
+    }
     e.preventDefault();
-    const rect = canvasRef.current.getBoundingClientRect();
-    const mouseX = e.clientX - rect.left;
-    const mouseY = e.clientY - rect.top;
-    const zoomFactor = e.deltaY > 0 ? 0.9 : 1.1;
-    const newZoom = Math.max(1, Math.min(20, zoom * zoomFactor));
-    // Focus zoom on mouse pointer
-    const zoomRatio = newZoom / zoom;
-    const newOffsetX = mouseX - (mouseX - offset.x) * zoomRatio;
-    const newOffsetY = mouseY - (mouseY - offset.y) * zoomRatio;
-    setZoom(newZoom);
-    setOffset({ x: newOffsetX, y: newOffsetY });
-  }, [zoom, offset]);
+  }, [
+    canvasSize,
+    keyboardCursor,
+    viewport,
+    pendingPoints,
+    palette,
+    zoom,
+    offset,
+    moveKeyboardCursor,
+    handleBatchPlace,
+    activatePoint,
+    cancelTool,
+  ]);
+
+  const handleToolHover = useCallback((e: React.PointerEvent) => {
+    if (!toolAnchor) return;
+    const point = getBoardPoint(e);
+    if (point) setToolPreview(getShapePoints(tool, toolAnchor, point));
+  }, [toolAnchor, tool, getBoardPoint]);
+
+  const gestures = useCanvasGestures(canvasRef, {
+    zoom,
+    offset,
+    setZoom,
+    setOffset,
+    onTap: handleCanvasTap,
+    onHover: handleToolHover,
+  });
 
   const handlePurchasePixels = async () => {
     if (!address) {
@@ -193,13 +611,13 @@ export function HomeTab() {
   };
 
   useEffect(() => {
-    if (!isPending && !error && address) {
+    if (!isPending && !error && user) {
       const refreshPixels = async () => {
         try {
-          const response = await fetch(`/api/canvas/user?address=${address}`);
+          const response = await fetch(`/api/canvas/${canvasId}/user?fid=${user.fid}`);
           const data = await response.json();
           if (data.success) {
-            setRemainingPixels(data.remainingPixels);
+            setRemainingPixels(data.quota.remaining);
           }
         } catch (_error) {
           console.error('Failed to refresh pixels:', _error);
@@ -207,7 +625,7 @@ export function HomeTab() {
       };
       refreshPixels();
     }
-  }, [isPending, error, address]);
+  }, [canvasId, isPending, error, user]);
 
   // Center and fit canvas
   const canvasContainerStyle = {
@@ -220,23 +638,106 @@ export function HomeTab() {
     background: 'black',
   };
 
-  // Canvas size logic: fit within 90vw/90vh, but not larger than CANVAS_SIZE*zoom
-  const maxCanvasPx = CANVAS_SIZE * zoom;
-  const vw = typeof window !== 'undefined' ? window.innerWidth : 800;
-  const vh = typeof window !== 'undefined' ? window.innerHeight : 600;
-  const canvasDisplayPx = Math.min(maxCanvasPx, Math.floor(Math.min(vw, vh) * 0.9));
+  const maxCanvasPx = canvasSize * zoom;
+  const canvasDisplayPx = getCanvasDisplaySize(canvasSize, zoom);
+  const canvasStatus = getCanvasStatus(canvas);
+  const season = canvas.seasonLength !== null ? getCurrentSeason(canvas) : null;
+  const recentColors = colorPreferences.recent.filter(color => isColorAllowed(palette, color));
+  const savedColors = colorPreferences.saved.filter(color => isColorAllowed(palette, color));
 
   return (
     <div className="h-full flex flex-col">
       <div className="flex justify-between items-center p-2 bg-black text-white">
         <div className="flex items-center gap-4">
-          <span className="font-bold text-lg">CastCanvas</span>
+          {channel?.imageUrl && (
+            <img src={channel.imageUrl} alt="" className="w-6 h-6 rounded-full" />
+          )}
+          <span className="font-bold text-lg">{canvas.name}</span>
+          {canvas.channel && (
+            <span className="text-sm text-purple-300">
+              /{canvas.channel}{channel && channel.name !== channel.id ? ` · ${channel.name}` : ''}
+            </span>
+          )}
+          {isChannelMember === false && (
+            <span className="text-sm text-yellow-400" title="Join the channel to paint here">
+              Members only
+            </span>
+          )}
+          {canvasStatus === 'upcoming' && canvas.startsAt !== null && (
+            <span className="text-sm text-yellow-400">
+              Opens {new Date(canvas.startsAt).toLocaleString()}
+            </span>
+          )}
+          {canvasStatus === 'ended' && (
+            <span className="text-sm text-yellow-400">Ended, read-only</span>
+          )}
+          {season && canvasStatus === 'open' && (
+            <span className="text-sm" title="The board is archived and starts over when the season ends">
+              Season {season.number}
+              {season.endsAt !== null && ` · ends ${new Date(season.endsAt).toLocaleString()}`}
+            </span>
+          )}
           <span className="text-sm">{remainingPixels} pixels left</span>
+          {cooldownSecondsLeft > 0 && (
+            <span className="text-sm text-yellow-400" title="Time until you can place again">
+              ⏳ {cooldownSecondsLeft}s
+            </span>
+          )}
           {chainId !== REQUIRED_CHAIN_ID && (
             <span className="text-xs text-yellow-400">⚠️ Switch to Base</span>
           )}
         </div>
         <div className="flex items-center gap-2">
+          <button
+            onClick={() => {
+              setIsInspecting(!isInspecting);
+              setInspectedPixel(null);
+            }}
+            className={`px-3 py-1 text-white rounded text-sm ${
+              isInspecting ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+            title="Tap a pixel to see who painted it"
+          >
+            🔍 Inspect
+          </button>
+          <button
+            onClick={() => {
+              setIsReplaying(!isReplaying);
+              setInspectedPixel(null);
+            }}
+            className={`px-3 py-1 text-white rounded text-sm ${
+              isReplaying ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+            title="Watch the board being painted"
+          >
+            ⏯ Replay
+          </button>
+          <a
+            href={`/api/canvas/${canvasId}/image.png?scale=${DOWNLOAD_SCALE}`}
+            download={`castcanvas-${canvasId}.png`}
+            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm"
+            title="Download the board as a PNG"
+          >
+            ⬇ Download
+          </a>
+          {season && (
+            <a
+              href={`/c/${canvasId}/seasons`}
+              className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm"
+              title="Browse the final boards of past seasons"
+            >
+              📜 Seasons
+            </a>
+          )}
+          <ShareButton
+            buttonText="↗ Share view"
+            cast={{
+              text: `Look at what's happening at (${viewport.x}, ${viewport.y}) on ${canvas.name}!`,
+              embeds: [{ viewport, canvasId }],
+              channelKey: canvas.channel ?? undefined,
+            }}
+            className="!w-auto !max-w-none !mx-0 !px-3 !py-1 !text-sm"
+          />
           <button
             onClick={() => setShowColorPalette(!showColorPalette)}
             className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm"
@@ -256,7 +757,7 @@ export function HomeTab() {
         <div
           ref={canvasRef}
           className={
-            `relative ${isDragging ? 'cursor-grabbing' : 'cursor-crosshair'}`
+            `relative ${gestures.isPanning ? 'cursor-grabbing' : 'cursor-crosshair'}`
           }
           style={{
             width: canvasDisplayPx,
@@ -268,54 +769,45 @@ export function HomeTab() {
             margin: 'auto',
             transition: 'width 0.2s, height 0.2s',
             userSelect: 'none',
+            touchAction: 'none',
           }}
-          onClick={handleCanvasClick}
-          onMouseDown={handleMouseDown}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseUp}
-          onWheel={handleWheel}
+          {...gestures.handlers}
+          tabIndex={0}
+          role="application"
+          aria-roledescription="pixel canvas"
+          aria-label="Canvas. Arrow keys or WASD move the cursor, Shift moves faster, Enter places, number keys pick a color, plus and minus zoom, Escape cancels."
+          onKeyDown={handleCanvasKeyDown}
+          onFocus={() => {
+            setIsCanvasFocused(true);
+            setKeyboardCursor(cursor => cursor ?? { x: viewport.x, y: viewport.y });
+          }}
+          onBlur={() => setIsCanvasFocused(false)}
         >
-          <div
-            className="absolute"
-            style={{
-              width: CANVAS_SIZE * zoom,
-              height: CANVAS_SIZE * zoom,
-              transform: `translate(${offset.x}px, ${offset.y}px)`,
-              backgroundColor: '#000000',
-              backgroundImage: `
-                linear-gradient(rgba(255,255,255,0.1) 1px, transparent 1px),
-                linear-gradient(90deg, rgba(255,255,255,0.1) 1px, transparent 1px)
-              `,
-              backgroundSize: `${zoom}px ${zoom}px`
-            }}
-          >
-            {pixels.map((pixel) => (
-              <div
-                key={`${pixel.x}-${pixel.y}-${pixel.timestamp}`}
-                className="pixel"
-                style={{
-                  left: pixel.x * zoom,
-                  top: pixel.y * zoom,
-                  width: zoom,
-                  height: zoom,
-                  backgroundColor: pixel.color,
-                  border: zoom > 2 ? '1px solid rgba(255,255,255,0.2)' : 'none'
-                }}
-                title={`${pixel.color} at (${pixel.x}, ${pixel.y})`}
-              />
-            ))}
-          </div>
+          <PixelCanvasRenderer
+            buffer={isReplaying ? replay.buffer : pixelBuffer}
+            version={isReplaying ? replay.version : bufferVersion}
+            zoom={zoom}
+            offset={offset}
+            preview={isReplaying ? null : toolOverlay}
+            cursor={isCanvasFocused ? keyboardCursor : null}
+          />
+        </div>
+        <div className="sr-only" aria-live="polite" aria-atomic="true">
+          {isCanvasFocused && keyboardCursor && (
+            `(${keyboardCursor.x}, ${keyboardCursor.y}), ${
+              getBufferColor(pixelBuffer, keyboardCursor.x, keyboardCursor.y) ?? 'unpainted'
+            }. Selected color ${selectedColor}.`
+          )}
         </div>
         <div className="absolute top-4 right-4 flex flex-col gap-2">
           <button
-            onClick={() => setZoom(prev => Math.min(20, prev * 1.2))}
+            onClick={() => setZoom(prev => Math.min(MAX_ZOOM, prev * 1.2))}
             className="w-10 h-10 bg-gray-800 text-white rounded-lg shadow-lg flex items-center justify-center text-lg font-bold hover:bg-gray-700"
           >
             +
           </button>
           <button
-            onClick={() => setZoom(prev => Math.max(1, prev / 1.2))}
+            onClick={() => setZoom(prev => Math.max(MIN_ZOOM, prev / 1.2))}
             className="w-10 h-10 bg-gray-800 text-white rounded-lg shadow-lg flex items-center justify-center text-lg font-bold hover:bg-gray-700"
           >
             -
@@ -327,51 +819,178 @@ export function HomeTab() {
           >
             ⌂
           </button>
+          <button
+            onClick={() => setShowHeatmap(!showHeatmap)}
+            className={`w-10 h-10 text-white rounded-lg shadow-lg flex items-center justify-center text-sm ${
+              showHeatmap ? 'bg-blue-600 hover:bg-blue-700' : 'bg-gray-800 hover:bg-gray-700'
+            }`}
+            title="Show recent activity on the minimap"
+            aria-pressed={showHeatmap}
+          >
+            🔥
+          </button>
         </div>
+        <Minimap
+          buffer={isReplaying ? replay.buffer : pixelBuffer}
+          version={isReplaying ? replay.version : bufferVersion}
+          view={{
+            x: -offset.x / zoom,
+            y: -offset.y / zoom,
+            width: canvasDisplayPx / zoom,
+            height: canvasDisplayPx / zoom,
+          }}
+          onNavigate={(x, y) => setOffset({
+            x: canvasDisplayPx / 2 - x * zoom,
+            y: canvasDisplayPx / 2 - y * zoom,
+          })}
+          heatmap={showHeatmap ? heatmap : null}
+        />
         <div className="absolute bottom-4 left-4 bg-black bg-opacity-70 text-white px-3 py-2 rounded text-sm">
-          {Math.round(zoom * 100)}% | ({Math.round(offset.x)}, {Math.round(offset.y)})
+          {Math.round(zoom * 100)}% | ({viewport.x}, {viewport.y})
         </div>
+        {!isReplaying && !isInspecting && (
+          <ToolPalette
+            tool={tool}
+            onToolChange={(value) => {
+              setTool(value);
+              cancelTool();
+            }}
+            pending={pendingPlacement}
+            remainingPixels={remainingPixels}
+            cooldownSecondsLeft={cooldownSecondsLeft}
+            confirmTaps={isTouchDevice ? confirmTouchPlacement : null}
+            onConfirmTapsChange={(enabled) => {
+              setConfirmTouchPlacement(enabled);
+              setItem(CONFIRM_TOUCH_PLACEMENT_KEY, enabled);
+            }}
+            isPlacing={isPlacingBatch}
+            onConfirm={handleBatchPlace}
+            onCancel={cancelTool}
+          />
+        )}
+        {isReplaying && (
+          <ReplayControls
+            position={replay.position}
+            start={replay.start}
+            total={replay.total}
+            isPlaying={replay.isPlaying}
+            speed={replay.speed}
+            onPlay={replay.play}
+            onPause={replay.pause}
+            onSeek={replay.seek}
+            onSpeedChange={replay.setSpeed}
+            onExit={() => setIsReplaying(false)}
+          />
+        )}
+        {inspectedPixel && (
+          <PixelInspector
+            canvasId={canvasId}
+            x={inspectedPixel.x}
+            y={inspectedPixel.y}
+            onClose={() => setInspectedPixel(null)}
+          />
+        )}
+        {undoSecondsLeft > 0 && !isReplaying && (
+          <button
+            onClick={handleUndo}
+            disabled={isUndoing}
+            className="absolute bottom-4 left-1/2 -translate-x-1/2 px-4 py-2 bg-gray-800 hover:bg-gray-700 disabled:bg-gray-600 text-white rounded-lg shadow-lg text-sm z-10"
+          >
+            {isUndoing ? "Undoing..." : `↶ Undo (${undoSecondsLeft}s)`}
+          </button>
+        )}
+        {isPickingColor && (
+          <div className="absolute bottom-16 left-1/2 -translate-x-1/2 bg-black bg-opacity-70 text-white px-3 py-2 rounded text-sm">
+            Tap a pixel to pick its color{' '}
+            <button onClick={() => setIsPickingColor(false)} className="ml-2 underline">
+              Cancel
+            </button>
+          </div>
+        )}
         {showColorPalette && (
           <div className="absolute top-16 right-4 bg-gray-800 p-4 rounded-lg shadow-xl z-10">
-            <div className="grid grid-cols-4 gap-2 mb-3">
-              {DEFAULT_COLORS.map((color) => (
-                <button
-                  key={color}
-                  onClick={() => {
+            {recentColors.length > 0 && (
+              <div className="mb-3">
+                <div className="text-xs text-gray-300 mb-1">Recent</div>
+                <ColorSwatches
+                  colors={recentColors}
+                  selectedColor={selectedColor}
+                  onSelect={(color) => {
                     setSelectedColor(color);
                     setShowColorPalette(false);
                   }}
-                  className={`w-8 h-8 rounded border-2 transition-all ${
-                    selectedColor === color ? 'border-white scale-110' : 'border-gray-600'
-                  }`}
-                  style={{ backgroundColor: color }}
-                  title={color}
                 />
-              ))}
-            </div>
-            <div className="flex items-center gap-2">
-              <div
-                className="w-8 h-8 rounded border-2 border-gray-600 cursor-pointer flex items-center justify-center bg-white"
-                onClick={() => {
-                  setShowColorPicker(true);
-                  if (colorInputRef.current) colorInputRef.current.click();
+              </div>
+            )}
+            <div className="mb-3">
+              <ColorSwatches
+                colors={palette ?? DEFAULT_COLORS}
+                columns={palette ? 8 : 4}
+                selectedColor={selectedColor}
+                onSelect={(color) => {
+                  setSelectedColor(color);
+                  setShowColorPalette(false);
                 }}
-              >
-                <input
-                  ref={colorInputRef}
-                  type="color"
-                  value={customColor}
-                  onChange={(e) => {
-                    setCustomColor(e.target.value);
-                    setSelectedColor(e.target.value);
+              />
+            </div>
+            <div className="mb-3">
+              <div className="flex justify-between items-center text-xs text-gray-300 mb-1">
+                <span>Saved</span>
+                <button
+                  onClick={() => saveColor(selectedColor)}
+                  className="hover:text-white"
+                  title="Save the selected color"
+                >
+                  + Save current
+                </button>
+              </div>
+              {savedColors.length > 0 && (
+                <ColorSwatches
+                  colors={savedColors}
+                  selectedColor={selectedColor}
+                  onSelect={(color) => {
+                    setSelectedColor(color);
+                    setShowColorPalette(false);
                   }}
-                  className="w-8 h-8 rounded border-2 border-gray-600 cursor-pointer opacity-0 absolute"
-                  style={{ left: 0, top: 0 }}
+                  onRemove={removeColor}
                 />
-                <span className="text-xs text-gray-700">Custom</span>
-              </div>
-              <span className="text-xs text-gray-300">Custom</span>
+              )}
             </div>
+            <button
+              onClick={() => {
+                setIsPickingColor(true);
+                setShowColorPalette(false);
+              }}
+              className="w-full mb-3 px-2 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded text-xs"
+              title="Pick a color from the board"
+            >
+              💧 Pick from board
+            </button>
+            {!palette && (
+              <div className="flex items-center gap-2">
+                <div
+                  className="w-8 h-8 rounded border-2 border-gray-600 cursor-pointer flex items-center justify-center bg-white"
+                  onClick={() => {
+                    setShowColorPicker(true);
+                    if (colorInputRef.current) colorInputRef.current.click();
+                  }}
+                >
+                  <input
+                    ref={colorInputRef}
+                    type="color"
+                    value={customColor}
+                    onChange={(e) => {
+                      setCustomColor(e.target.value);
+                      setSelectedColor(e.target.value);
+                    }}
+                    className="w-8 h-8 rounded border-2 border-gray-600 cursor-pointer opacity-0 absolute"
+                    style={{ left: 0, top: 0 }}
+                  />
+                  <span className="text-xs text-gray-700">Custom</span>
+                </div>
+                <span className="text-xs text-gray-300">Custom</span>
+              </div>
+            )}
             <div className="mt-2 text-xs text-gray-300">
               Selected: <span className="font-mono" style={{ color: selectedColor }}>{selectedColor}</span>
             </div>
@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "~/hooks/useAuth";
+import { getCanvasConfig, getDefaultCanvasConfig } from "~/lib/canvasConfig";
+import type { LeaderboardEntry, LeaderboardMetric, LeaderboardPeriod } from "~/lib/leaderboard";
+
+interface LeaderboardTabProps {
+  canvasId: string;
+}
+
+interface Painter {
+  fid: number;
+  username: string;
+  display_name?: string;
+  pfp_url?: string;
+}
+
+interface LeaderboardData {
+  entries: LeaderboardEntry[];
+  viewer: LeaderboardEntry | null;
+  total: number;
+}
+
+const PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  day: "Today",
+  season: "This season",
+  all: "All time",
+};
+
+const METRIC_LABELS: Record<LeaderboardMetric, string> = {
+  placed: "Placed",
+  surviving: "Surviving",
+  territory: "Territory",
+};
+
+/**
+ * Top painters of a canvas for a period, ranked by pixels placed, pixels
+ * still on the board or territory held, with the viewer's own rank.
+ */
+export function LeaderboardTab({ canvasId }: LeaderboardTabProps) {
+  const { user } = useAuth();
+  const canvas = getCanvasConfig(canvasId) ?? getDefaultCanvasConfig();
+  const [period, setPeriod] = useState<LeaderboardPeriod>(canvas.seasonLength !== null ? "season" : "all");
+  const [metric, setMetric] = useState<LeaderboardMetric>("placed");
+  const [leaderboard, setLeaderboard] = useState<LeaderboardData | null>(null);
+  const [painters, setPainters] = useState<Record<string, Painter>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  // Without seasons, the season is all time
+  const periods: LeaderboardPeriod[] = canvas.seasonLength !== null ? ["day", "season", "all"] : ["day", "all"];
+  const fid = user?.fid;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLeaderboard(null);
+    setError(null);
+
+    const loadLeaderboard = async () => {
+      try {
+        const viewerQuery = fid ? `&fid=${fid}` : "";
+        const response = await fetch(`/api/canvas/${canvasId}/leaderboard?period=${period}&metric=${metric}${viewerQuery}`);
+        const data = await response.json();
+        if (!data.success) throw new Error(data.error);
+        if (cancelled) return;
+        setLeaderboard(data);
+
+        const fids = (data.entries as LeaderboardEntry[]).map(entry => entry.user);
+        if (data.viewer) fids.push(data.viewer.user);
+        if (fids.length === 0) return;
+        const usersResponse = await fetch(`/api/users?fids=${Array.from(new Set(fids)).join(',')}`);
+        const usersData = await usersResponse.json();
+        if (cancelled || !usersData.users) return;
+        setPainters(Object.fromEntries(
+          (usersData.users as Painter[]).map(painter => [String(painter.fid), painter])
+        ));
+      } catch (_error) {
+        console.error('Failed to load leaderboard:', _error);
+        if (!cancelled) setError('Failed to load leaderboard');
+      }
+    };
+    loadLeaderboard();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canvasId, period, metric, fid]);
+
+  const renderEntry = (entry: LeaderboardEntry, isViewer: boolean) => {
+    const painter = painters[entry.user];
+    return (
+      <li
+        key={`${isViewer ? 'viewer' : 'rank'}-${entry.user}`}
+        className={`flex items-center gap-3 px-3 py-2 rounded ${isViewer ? 'bg-blue-900' : 'bg-gray-800'}`}
+      >
+        <span className="w-8 text-right font-bold text-sm">#{entry.rank}</span>
+        {painter?.pfp_url ? (
+          <img src={painter.pfp_url} alt="" className="w-8 h-8 rounded-full flex-shrink-0" />
+        ) : (
+          <span className="w-8 h-8 rounded-full bg-gray-700 flex-shrink-0" />
+        )}
+        <div className="flex-1 min-w-0">
+          <div className="text-sm truncate">
+            {painter ? painter.display_name ?? painter.username : `FID ${entry.user}`}
+            {isViewer && <span className="text-gray-300"> (you)</span>}
+          </div>
+          {painter && <div className="text-xs text-gray-400 truncate">@{painter.username}</div>}
+        </div>
+        <div className="text-right">
+          <div className="font-bold text-sm">{entry[metric]}</div>
+          <div className="text-xs text-gray-400">
+            {entry.placed} placed · {entry.surviving} left · {entry.territory} cells
+          </div>
+        </div>
+      </li>
+    );
+  };
+
+  const viewerIsListed = leaderboard?.viewer
+    ? leaderboard.entries.some(entry => entry.user === leaderboard.viewer!.user)
+    : false;
+
+  return (
+    <div className="h-full overflow-y-auto bg-black text-white p-4">
+      <h2 className="font-bold text-lg mb-3">{canvas.name} leaderboard</h2>
+      <div className="flex gap-2 mb-2">
+        {periods.map(option => (
+          <button
+            key={option}
+            onClick={() => setPeriod(option)}
+            className={`px-3 py-1 rounded text-sm ${period === option ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            {PERIOD_LABELS[option]}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2 mb-4">
+        {(Object.keys(METRIC_LABELS) as LeaderboardMetric[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setMetric(option)}
+            className={`px-3 py-1 rounded text-xs ${metric === option ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            {METRIC_LABELS[option]}
+          </button>
+        ))}
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {!error && !leaderboard && <p className="text-sm text-gray-400">Loading...</p>}
+      {leaderboard?.entries.length === 0 && (
+        <p className="text-sm text-gray-400">Nobody has painted yet in this period.</p>
+      )}
+      {leaderboard && (
+        <>
+          {user && (
+            <p className="text-sm mb-3">
+              {leaderboard.viewer
+                ? `You are #${leaderboard.viewer.rank} of ${leaderboard.total}`
+                : 'You are not ranked yet: place a pixel to join'}
+            </p>
+          )}
+          <ol className="space-y-2">
+            {leaderboard.entries.map(entry => renderEntry(entry, entry.user === leaderboard.viewer?.user))}
+          </ol>
+          {leaderboard.viewer && !viewerIsListed && (
+            <ol className="mt-4">{renderEntry(leaderboard.viewer, true)}</ol>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
 export { HomeTab } from './HomeTab';
+export { LeaderboardTab } from './LeaderboardTab';
 export { ActionsTab } from './ActionsTab';
 export { ContextTab } from './ContextTab'; 
\ No newline at end of file
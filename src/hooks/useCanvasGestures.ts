@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useRef, useState, type Dispatch, type RefObject, type SetStateAction } from 'react';
+import { MAX_ZOOM, MIN_ZOOM } from '~/lib/viewport';
+
+/** Distance, in screen pixels, a press may move and still count as a tap */
+const DRAG_THRESHOLD_PX = 8;
+
+interface Offset {
+  x: number;
+  y: number;
+}
+
+interface CanvasGestureOptions {
+  zoom: number;
+  offset: Offset;
+  setZoom: Dispatch<SetStateAction<number>>;
+  setOffset: Dispatch<SetStateAction<Offset>>;
+  /** A single press released without panning or pinching */
+  onTap: (e: React.PointerEvent) => void;
+  /** Any mouse movement over the board, pressed or not */
+  onHover?: (e: React.PointerEvent) => void;
+}
+
+// The press currently in progress, from first pointer down to last pointer up
+interface Press {
+  start: Offset;
+  last: Offset;
+  isPanning: boolean;
+  /** Set once a second finger touches; such a press never ends in a tap */
+  isMultiTouch: boolean;
+}
+
+// Pinch state captured when the second finger lands
+interface Pinch {
+  distance: number;
+  zoom: number;
+  /** Board coordinates under the midpoint of the two fingers */
+  boardX: number;
+  boardY: number;
+}
+
+function clampZoom(zoom: number): number {
+  return Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+}
+
+/**
+ * Pointer-event pan and zoom for the board element in `elementRef`.
+ *
+ * - One pointer: moving further than `DRAG_THRESHOLD_PX` pans; otherwise
+ *   releasing it is a tap, so a pan never places a pixel.
+ * - Two fingers: pinch zooms around their midpoint, and moving both pans.
+ * - Mouse wheel: zooms around the pointer.
+ */
+export function useCanvasGestures(elementRef: RefObject<HTMLElement | null>, options: CanvasGestureOptions) {
+  const optionsRef = useRef(options);
+  const pointersRef = useRef(new Map<number, Offset>());
+  const pressRef = useRef<Press | null>(null);
+  const pinchRef = useRef<Pinch | null>(null);
+  const [isPanning, setIsPanning] = useState(false);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+
+  const startPinch = useCallback(() => {
+    const element = elementRef.current;
+    const [a, b] = Array.from(pointersRef.current.values());
+    if (!element || !a || !b) return;
+    const rect = element.getBoundingClientRect();
+    const { zoom, offset } = optionsRef.current;
+    pinchRef.current = {
+      distance: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)),
+      zoom,
+      boardX: ((a.x + b.x) / 2 - rect.left - offset.x) / zoom,
+      boardY: ((a.y + b.y) / 2 - rect.top - offset.y) / zoom,
+    };
+  }, [elementRef]);
+
+  const onPointerDown = useCallback((e: React.PointerEvent) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const position = { x: e.clientX, y: e.clientY };
+    pointersRef.current.set(e.pointerId, position);
+
+    if (!pressRef.current) {
+      pressRef.current = { start: position, last: position, isPanning: false, isMultiTouch: false };
+    } else if (pointersRef.current.size === 2) {
+      pressRef.current.isMultiTouch = true;
+      startPinch();
+    }
+  }, [startPinch]);
+
+  const onPointerMove = useCallback((e: React.PointerEvent) => {
+    const { onHover, setZoom, setOffset } = optionsRef.current;
+    const press = pressRef.current;
+    if (!pointersRef.current.has(e.pointerId) || !press) {
+      if (e.pointerType === 'mouse') onHover?.(e);
+      return;
+    }
+    const position = { x: e.clientX, y: e.clientY };
+    pointersRef.current.set(e.pointerId, position);
+
+    const pinch = pinchRef.current;
+    const element = elementRef.current;
+    if (pinch && element && pointersRef.current.size >= 2) {
+      const [a, b] = Array.from(pointersRef.current.values());
+      const rect = element.getBoundingClientRect();
+      const zoom = clampZoom(pinch.zoom * Math.hypot(a.x - b.x, a.y - b.y) / pinch.distance);
+      // Keep the board point that started under the fingers' midpoint under it
+      setZoom(zoom);
+      setOffset({
+        x: (a.x + b.x) / 2 - rect.left - pinch.boardX * zoom,
+        y: (a.y + b.y) / 2 - rect.top - pinch.boardY * zoom,
+      });
+      return;
+    }
+
+    if (!press.isPanning) {
+      const distance = Math.hypot(position.x - press.start.x, position.y - press.start.y);
+      if (distance <= DRAG_THRESHOLD_PX) {
+        if (e.pointerType === 'mouse') onHover?.(e);
+        return;
+      }
+      press.isPanning = true;
+      setIsPanning(true);
+    }
+    const deltaX = position.x - press.last.x;
+    const deltaY = position.y - press.last.y;
+    press.last = position;
+    setOffset(prev => ({ x: prev.x + deltaX, y: prev.y + deltaY }));
+  }, [elementRef]);
+
+  const endPointer = useCallback((e: React.PointerEvent, isCancelled: boolean) => {
+    if (!pointersRef.current.delete(e.pointerId)) return;
+    const press = pressRef.current;
+    if (!press) return;
+
+    if (pointersRef.current.size > 0) {
+      // Lifting one finger of a pinch: keep panning with the other one
+      pinchRef.current = null;
+      press.isPanning = true;
+      press.last = Array.from(pointersRef.current.values())[0];
+      return;
+    }
+
+    pressRef.current = null;
+    pinchRef.current = null;
+    setIsPanning(false);
+    if (!isCancelled && !press.isPanning && !press.isMultiTouch) {
+      optionsRef.current.onTap(e);
+    }
+  }, []);
+
+  const onPointerUp = useCallback((e: React.PointerEvent) => endPointer(e, false), [endPointer]);
+  const onPointerCancel = useCallback((e: React.PointerEvent) => endPointer(e, true), [endPointer]);
+
+  // Attached natively because React's wheel listener is passive and can't prevent page scrolling
+  useEffect(() => {
+    const element = elementRef.current;
+    if (!element) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const { zoom, offset, setZoom, setOffset } = optionsRef.current;
+      const rect = element.getBoundingClientRect();
+      const mouseX = e.clientX - rect.left;
+      const mouseY = e.clientY - rect.top;
+      const newZoom = clampZoom(zoom * (e.deltaY > 0 ? 0.9 : 1.1));
+      // Focus zoom on mouse pointer
+      const zoomRatio = newZoom / zoom;
+      setZoom(newZoom);
+      setOffset({
+        x: mouseX - (mouseX - offset.x) * zoomRatio,
+        y: mouseY - (mouseY - offset.y) * zoomRatio,
+      });
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [elementRef]);
+
+  return {
+    isPanning,
+    handlers: { onPointerDown, onPointerMove, onPointerUp, onPointerCancel },
+  };
+}
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Pixel } from '~/lib/canvasStore';
+import { clearPixelBuffer, createPixelBuffer, setBufferPixel } from '~/lib/pixelBuffer';
+
+const PAGE_SIZE = 500;
+/** Placements drawn per second at 1x speed */
+const BASE_PLACEMENTS_PER_SECOND = 25;
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 50];
+
+/**
+ * Drives a timelapse of canvas `canvasId`'s placement log into its own
+ * `canvasSize` pixel buffer.
+ *
+ * The log is fetched page by page from `/api/canvas/[id]/history` as playback
+ * (or scrubbing) approaches the end of what has been downloaded, so long
+ * replays never load the whole history up front. Positions are sequence
+ * numbers: position N shows the board right after placement N, and `start`
+ * is the position of the season's blank board.
+ */
+export function useCanvasReplay(canvasId: string, canvasSize: number, active: boolean) {
+  const [buffer] = useState(() => createPixelBuffer(canvasSize));
+  const [version, setVersion] = useState(0);
+  const [position, setPosition] = useState(0);
+  const [start, setStart] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(REPLAY_SPEEDS[0]);
+
+  const logRef = useRef<Pixel[]>([]);
+  const hasMoreRef = useRef(true);
+  const loadingRef = useRef<Promise<void> | null>(null);
+  // Index into logRef of the next placement to draw
+  const cursorRef = useRef(0);
+  const positionRef = useRef(0);
+  const startRef = useRef(0);
+
+  const loadNextPage = useCallback(() => {
+    if (!hasMoreRef.current) return Promise.resolve();
+    if (!loadingRef.current) {
+      const log = logRef.current;
+      const after = log.length > 0 ? log[log.length - 1].seq : 0;
+      loadingRef.current = fetch(`/api/canvas/${canvasId}/history?after=${after}&limit=${PAGE_SIZE}`)
+        .then(response => response.json())
+        .then(data => {
+          if (!data.success) throw new Error(data.error);
+          log.push(...data.placements);
+          hasMoreRef.current = data.hasMore;
+          startRef.current = data.startSequence;
+          setStart(data.startSequence);
+          setTotal(data.sequence);
+          // Seasons after the first count on from where the previous one stopped
+          if (positionRef.current < data.startSequence) {
+            positionRef.current = data.startSequence;
+            setPosition(data.startSequence);
+          }
+        })
+        .catch(error => {
+          console.error('Failed to load replay history:', error);
+          hasMoreRef.current = false;
+        })
+        .finally(() => {
+          loadingRef.current = null;
+        });
+    }
+    return loadingRef.current;
+  }, [canvasId]);
+
+  const drawTo = useCallback((target: number) => {
+    const log = logRef.current;
+    if (target < positionRef.current) {
+      clearPixelBuffer(buffer);
+      cursorRef.current = 0;
+    }
+    while (cursorRef.current < log.length && log[cursorRef.current].seq <= target) {
+      const pixel = log[cursorRef.current];
+      setBufferPixel(buffer, pixel.x, pixel.y, pixel.color);
+      cursorRef.current++;
+    }
+    positionRef.current = target;
+    setPosition(target);
+    setVersion(v => v + 1);
+  }, [buffer]);
+
+  const seek = useCallback(async (target: number) => {
+    const log = logRef.current;
+    while (hasMoreRef.current && (log.length === 0 || log[log.length - 1].seq < target)) {
+      await loadNextPage();
+    }
+    drawTo(target);
+  }, [loadNextPage, drawTo]);
+
+  const play = useCallback(() => {
+    // Restart from the beginning when play is pressed at the end
+    if (cursorRef.current >= logRef.current.length && !hasMoreRef.current) drawTo(startRef.current);
+    setIsPlaying(true);
+  }, [drawTo]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  // Start from a blank board each time replay mode is entered
+  useEffect(() => {
+    if (!active) return;
+    logRef.current = [];
+    hasMoreRef.current = true;
+    cursorRef.current = 0;
+    positionRef.current = 0;
+    clearPixelBuffer(buffer);
+    setPosition(0);
+    setVersion(v => v + 1);
+    setIsPlaying(false);
+    loadNextPage();
+  }, [active, buffer, loadNextPage]);
+
+  useEffect(() => {
+    if (!active || !isPlaying) return;
+
+    let frame: number;
+    let last = performance.now();
+    let carry = 0;
+
+    const step = (now: number) => {
+      const log = logRef.current;
+      carry += ((now - last) / 1000) * BASE_PLACEMENTS_PER_SECOND * speed;
+      last = now;
+      const count = Math.floor(carry);
+      carry -= count;
+
+      if (count > 0) {
+        const index = Math.min(cursorRef.current + count, log.length) - 1;
+        if (index >= cursorRef.current) drawTo(log[index].seq);
+      }
+
+      // Keep at least half a page buffered ahead of the playhead
+      if (log.length - cursorRef.current < PAGE_SIZE / 2) loadNextPage();
+
+      if (cursorRef.current >= log.length && !hasMoreRef.current && !loadingRef.current) {
+        setIsPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(step);
+    };
+
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [active, isPlaying, speed, drawTo, loadNextPage]);
+
+  return {
+    buffer,
+    version,
+    position,
+    start,
+    total,
+    isPlaying,
+    speed,
+    play,
+    pause,
+    seek,
+    setSpeed,
+  };
+}
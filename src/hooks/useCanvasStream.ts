@@ -0,0 +1,121 @@
+import { useEffect, useRef } from 'react';
+import type { Pixel } from '~/lib/canvasStore';
+
+const MIN_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+interface CanvasStreamHandlers {
+  /** Called with placements received since the last call, in sequence order */
+  onPixels: (pixels: Pixel[]) => void;
+  /** Called when the server can no longer replay from our sequence; reload the canvas */
+  onResync: () => void;
+}
+
+/**
+ * Subscribes to live placements on canvas `canvasId` from
+ * `/api/canvas/[id]/stream`, starting after `sequence` (the sequence the
+ * loaded canvas snapshot was taken at).
+ *
+ * Reconnects with exponential backoff and resumes from the last received
+ * sequence number, so placements made while disconnected are replayed.
+ * While the page is hidden the stream is closed; on return the hook catches
+ * up in one request to `/api/canvas/[id]/changes` before reconnecting.
+ * Pass null to stay disconnected until the canvas has loaded.
+ */
+export function useCanvasStream(canvasId: string, sequence: number | null, handlers: CanvasStreamHandlers) {
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  useEffect(() => {
+    if (sequence === null) return;
+
+    let lastSeq = sequence;
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryDelay = MIN_RETRY_DELAY_MS;
+    let pending: Pixel[] = [];
+    let frame: number | null = null;
+    let disposed = false;
+
+    // Coalesce bursts of events into one update per animation frame
+    const flush = () => {
+      frame = null;
+      const pixels = pending;
+      pending = [];
+      if (pixels.length > 0) handlersRef.current.onPixels(pixels);
+    };
+
+    const receive = (pixels: Pixel[]) => {
+      for (const pixel of pixels) {
+        if (pixel.seq <= lastSeq) continue;
+        lastSeq = pixel.seq;
+        pending.push(pixel);
+      }
+      if (pending.length > 0 && frame === null) frame = requestAnimationFrame(flush);
+    };
+
+    const connect = () => {
+      source = new EventSource(`/api/canvas/${canvasId}/stream?since=${lastSeq}`);
+
+      source.addEventListener('open', () => {
+        retryDelay = MIN_RETRY_DELAY_MS;
+      });
+
+      source.addEventListener('pixel', (event) => {
+        receive([JSON.parse((event as MessageEvent<string>).data)]);
+      });
+
+      source.addEventListener('resync', () => {
+        source?.close();
+        handlersRef.current.onResync();
+      });
+
+      source.addEventListener('error', () => {
+        // EventSource retries transient failures itself; we only step in once it gives up
+        if (disposed || source?.readyState !== EventSource.CLOSED) return;
+        retryTimer = setTimeout(connect, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+      });
+    };
+
+    const disconnect = () => {
+      source?.close();
+      source = null;
+      clearTimeout(retryTimer);
+    };
+
+    const catchUp = async () => {
+      try {
+        const response = await fetch(`/api/canvas/${canvasId}/changes?since=${lastSeq}`);
+        const data = await response.json();
+        if (disposed) return;
+        if (data.resync) {
+          handlersRef.current.onResync();
+          return;
+        }
+        if (data.success) receive(data.changes);
+      } catch (error) {
+        console.error('Failed to catch up on canvas changes:', error);
+      }
+      if (!disposed && !document.hidden && !source) connect();
+    };
+
+    const handleVisibilityChange = () => {
+      disconnect();
+      if (!document.hidden) catchUp();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    if (!document.hidden) connect();
+
+    return () => {
+      disposed = true;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      disconnect();
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [canvasId, sequence]);
+}
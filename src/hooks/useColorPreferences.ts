@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { APP_NAME } from '~/lib/constants';
+import { getItem, setItem } from '~/lib/localStorage';
+import {
+  addRecentColor,
+  addSavedColor,
+  EMPTY_COLOR_PREFERENCES,
+  parseColorPreferences,
+  removeSavedColor,
+  type ColorPreferences,
+} from '~/lib/colorPreferences';
+
+// Kept per account, so people sharing a device don't get each other's colors
+function getStorageKey(fid: number | null): string {
+  return `${APP_NAME}:colors:${fid ?? 'guest'}`;
+}
+
+// Quiet period after a change before it is pushed to the server
+const SYNC_DELAY_MS = 2000;
+
+/**
+ * Recent and saved colors, persisted in localStorage per account and, once
+ * the user is signed in (`fid` is not null), synced to
+ * `/api/canvas/user/colors` so they follow the user across Farcaster clients.
+ *
+ * Every sync sends the local copy; the server keeps whichever copy is newer
+ * and returns it, so the first sync after sign-in also pulls remote changes.
+ */
+export function useColorPreferences(fid: number | null, getToken: () => Promise<string | null>) {
+  const [preferences, setPreferences] = useState<ColorPreferences>(EMPTY_COLOR_PREFERENCES);
+  const preferencesRef = useRef(preferences);
+  const syncTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const storageKey = getStorageKey(fid);
+  const storageKeyRef = useRef(storageKey);
+
+  const commit = useCallback((next: ColorPreferences) => {
+    preferencesRef.current = next;
+    setPreferences(next);
+    setItem(storageKey, next);
+  }, [storageKey]);
+
+  const sync = useCallback(async () => {
+    try {
+      const token = await getToken();
+      if (!token) return;
+      const response = await fetch('/api/canvas/user/colors', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify(preferencesRef.current),
+      });
+      const data = await response.json();
+      const kept = data.success ? parseColorPreferences(data.preferences) : null;
+      // Dropped if another account signed in meanwhile
+      if (storageKeyRef.current !== storageKey) return;
+      if (kept && kept.updatedAt > preferencesRef.current.updatedAt) {
+        commit(kept);
+      }
+    } catch (_error) {
+      console.error('Failed to sync colors:', _error);
+    }
+  }, [getToken, commit, storageKey]);
+
+  // Switch to the signed-in account's colors
+  useEffect(() => {
+    storageKeyRef.current = storageKey;
+    clearTimeout(syncTimerRef.current);
+    const stored = parseColorPreferences(getItem(storageKey)) ?? EMPTY_COLOR_PREFERENCES;
+    preferencesRef.current = stored;
+    setPreferences(stored);
+    if (fid !== null) sync();
+  }, [storageKey, fid, sync]);
+
+  useEffect(() => () => clearTimeout(syncTimerRef.current), []);
+
+  const update = useCallback((change: (current: ColorPreferences) => ColorPreferences) => {
+    const next = change(preferencesRef.current);
+    if (next === preferencesRef.current) return;
+    commit(next);
+    if (fid !== null) {
+      clearTimeout(syncTimerRef.current);
+      syncTimerRef.current = setTimeout(sync, SYNC_DELAY_MS);
+    }
+  }, [fid, commit, sync]);
+
+  /** Moves `color` to the front of the recent colors; call after placing with it */
+  const recordColor = useCallback((color: string) => {
+    update(current => addRecentColor(current, color));
+  }, [update]);
+
+  const saveColor = useCallback((color: string) => {
+    update(current => addSavedColor(current, color));
+  }, [update]);
+
+  const removeColor = useCallback((color: string) => {
+    update(current => removeSavedColor(current, color));
+  }, [update]);
+
+  return { preferences, recordColor, saveColor, removeColor };
+}
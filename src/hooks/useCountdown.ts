@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+
+const TICK_MS = 250;
+
+function getSecondsLeft(deadline: number | null): number {
+  return deadline === null ? 0 : Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+}
+
+/**
+ * Whole seconds left until `deadline` (a Unix timestamp in ms), updated
+ * live; 0 once it has passed or when `deadline` is null.
+ */
+export function useCountdown(deadline: number | null): number {
+  const [secondsLeft, setSecondsLeft] = useState(() => getSecondsLeft(deadline));
+
+  useEffect(() => {
+    setSecondsLeft(getSecondsLeft(deadline));
+    if (deadline === null || deadline <= Date.now()) return;
+    const interval = setInterval(() => {
+      const left = getSecondsLeft(deadline);
+      setSecondsLeft(left);
+      if (left === 0) clearInterval(interval);
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  return secondsLeft;
+}
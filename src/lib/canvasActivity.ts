@@ -0,0 +1,48 @@
+import { CHANGE_LOG_LIMIT, isPaintedPlacement, type CanvasStore } from './canvasStore';
+
+/**
+ * Placement counts over a coarse grid of the board, row by row.
+ */
+export interface ActivityHeatmap {
+  /** Board pixels per side of each grid cell */
+  cellSize: number;
+  columns: number;
+  rows: number;
+  counts: number[];
+  /** Highest value in `counts` */
+  max: number;
+  /** Unix timestamp (ms) of the oldest placement counted */
+  since: number;
+}
+
+/**
+ * Counts placements from the last `windowMs` per `cellSize` grid cell.
+ *
+ * Only the most recent `CHANGE_LOG_LIMIT` placements are read, so on a
+ * busy board the window is effectively capped to them. Undone placements,
+ * restores and palette recolors aren't counted.
+ */
+export async function getActivityHeatmap(
+  store: CanvasStore,
+  canvasSize: number,
+  windowMs: number,
+  cellSize: number
+): Promise<ActivityHeatmap> {
+  const columns = Math.ceil(canvasSize / cellSize);
+  const rows = columns;
+  const counts = new Array<number>(columns * rows).fill(0);
+  const since = Date.now() - windowMs;
+
+  const sequence = await store.getSequence();
+  const changes = await store.getPlacements(Math.max(0, sequence - CHANGE_LOG_LIMIT), CHANGE_LOG_LIMIT);
+
+  const undone = new Set(changes.map(pixel => pixel.reverts));
+  let max = 0;
+  for (const pixel of changes) {
+    if (!isPaintedPlacement(pixel) || undone.has(pixel.seq) || pixel.timestamp < since) continue;
+    const cell = Math.floor(pixel.y / cellSize) * columns + Math.floor(pixel.x / cellSize);
+    max = Math.max(max, ++counts[cell]);
+  }
+
+  return { cellSize, columns, rows, counts, max, since };
+}
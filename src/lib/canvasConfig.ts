@@ -0,0 +1,204 @@
+import {
+  APP_NAME,
+  CANVAS_PALETTE,
+  CANVAS_ROOMS,
+  CANVAS_SEASON_DAYS,
+  CANVAS_SEASONS_START,
+  CANVAS_SIZE,
+  DAILY_PIXEL_LIMIT,
+  DEFAULT_CANVAS_ID,
+  type CanvasRoomSettings,
+} from './constants';
+import { LEGACY_CANVAS_ROUTES } from './legacyCanvasRoutes';
+
+/**
+ * Rules a canvas enforces on placements, served to clients by
+ * `/api/canvas/[id]/config`.
+ */
+export interface CanvasConfig {
+  /** Slug the canvas is addressed by in URLs and storage keys */
+  id: string;
+  name: string;
+  size: number;
+  /** Allowed `#RRGGBB` colors (upper case), or null if any color may be placed */
+  palette: string[] | null;
+  /** Free pixels each user may place per UTC day */
+  dailyLimit: number;
+  /** Farcaster channel ID whose members alone may paint, or null if anyone may */
+  channel: string | null;
+  /** Unix timestamps (ms) between which placing is open; null if unbounded */
+  startsAt: number | null;
+  endsAt: number | null;
+  /** Length of a season in ms, or null if the canvas plays a single season */
+  seasonLength: number | null;
+  /** Unix timestamp (ms) season 1 starts at */
+  seasonsStartAt: number;
+}
+
+/**
+ * A stretch of time with its own board. When a season ends its board is
+ * archived and the next one starts blank.
+ */
+export interface CanvasSeason {
+  /** Counts up from 1; canvases without seasons are always in season 1 */
+  number: number;
+  startsAt: number | null;
+  endsAt: number | null;
+}
+
+/** A canvas together with the season being played on it */
+export interface ActiveCanvas extends CanvasConfig {
+  season: CanvasSeason;
+}
+
+export type CanvasStatus = 'upcoming' | 'open' | 'ended';
+
+const CANVAS_ID_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,30}[a-z0-9])?$/;
+
+// Room IDs that would be shadowed by routes next to `/api/canvas/[id]` (the
+// static `user/colors`) or by the legacy rewrites in front of it
+const RESERVED_CANVAS_IDS = new Set(['user', ...LEGACY_CANVAS_ROUTES]);
+
+function parseTime(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid canvas time: ${value}`);
+  }
+  return time;
+}
+
+function parseSeasonLength(days: number | null): number | null {
+  if (days === null) return null;
+  if (!(days > 0)) {
+    throw new Error(`Invalid season length: ${days} days`);
+  }
+  return days * 24 * 60 * 60 * 1000;
+}
+
+function createRoomConfig(room: CanvasRoomSettings, base: CanvasConfig): CanvasConfig {
+  if (!CANVAS_ID_PATTERN.test(room.id) || RESERVED_CANVAS_IDS.has(room.id)) {
+    throw new Error(`Invalid canvas id: ${room.id}`);
+  }
+  const palette = room.palette === undefined ? base.palette : room.palette;
+  const startsAt = parseTime(room.startsAt);
+  return {
+    id: room.id,
+    name: room.name,
+    size: room.size ?? base.size,
+    palette: palette && palette.map(color => color.toUpperCase()),
+    dailyLimit: room.dailyPixelLimit ?? base.dailyLimit,
+    channel: room.channel ?? null,
+    startsAt,
+    endsAt: parseTime(room.endsAt),
+    seasonLength: room.seasonDays === undefined ? base.seasonLength : parseSeasonLength(room.seasonDays),
+    seasonsStartAt: startsAt ?? base.seasonsStartAt,
+  };
+}
+
+const defaultConfig: CanvasConfig = {
+  id: DEFAULT_CANVAS_ID,
+  name: APP_NAME,
+  size: CANVAS_SIZE,
+  palette: CANVAS_PALETTE && CANVAS_PALETTE.map(color => color.toUpperCase()),
+  dailyLimit: DAILY_PIXEL_LIMIT,
+  channel: null,
+  startsAt: null,
+  endsAt: null,
+  seasonLength: parseSeasonLength(CANVAS_SEASON_DAYS),
+  seasonsStartAt: parseTime(CANVAS_SEASONS_START)!,
+};
+
+const canvasConfigs = new Map<string, CanvasConfig>([[DEFAULT_CANVAS_ID, defaultConfig]]);
+for (const room of CANVAS_ROOMS) {
+  if (canvasConfigs.has(room.id)) {
+    throw new Error(`Duplicate canvas id: ${room.id}`);
+  }
+  canvasConfigs.set(room.id, createRoomConfig(room, defaultConfig));
+}
+
+/**
+ * The canvas with slug `id`, or null if there is none.
+ */
+export function getCanvasConfig(id: string): CanvasConfig | null {
+  return canvasConfigs.get(id) ?? null;
+}
+
+export function getDefaultCanvasConfig(): CanvasConfig {
+  return defaultConfig;
+}
+
+/** Every canvas, the default one first */
+export function getCanvasConfigs(): CanvasConfig[] {
+  return Array.from(canvasConfigs.values());
+}
+
+export function getCanvasStatus(canvas: CanvasConfig, now = Date.now()): CanvasStatus {
+  if (canvas.startsAt !== null && now < canvas.startsAt) return 'upcoming';
+  if (canvas.endsAt !== null && now >= canvas.endsAt) return 'ended';
+  return 'open';
+}
+
+/**
+ * Season `number` of `canvas`. The last season runs until the canvas ends.
+ */
+export function getSeason(canvas: CanvasConfig, number: number): CanvasSeason {
+  if (canvas.seasonLength === null) {
+    return { number: 1, startsAt: canvas.startsAt, endsAt: canvas.endsAt };
+  }
+  const startsAt = canvas.seasonsStartAt + (number - 1) * canvas.seasonLength;
+  const endsAt = startsAt + canvas.seasonLength;
+  return {
+    number,
+    startsAt,
+    endsAt: canvas.endsAt !== null && canvas.endsAt <= endsAt ? canvas.endsAt : endsAt,
+  };
+}
+
+/** The season being played at `now`, or the final one once the canvas has ended */
+export function getCurrentSeason(canvas: CanvasConfig, now = Date.now()): CanvasSeason {
+  if (canvas.seasonLength === null) return getSeason(canvas, 1);
+  const time = canvas.endsAt !== null ? Math.min(now, canvas.endsAt - 1) : now;
+  const number = Math.max(1, Math.floor((time - canvas.seasonsStartAt) / canvas.seasonLength) + 1);
+  return getSeason(canvas, number);
+}
+
+/** Page the canvas is played at */
+export function getCanvasPath(canvasId: string): string {
+  return canvasId === DEFAULT_CANVAS_ID ? '/' : `/c/${canvasId}`;
+}
+
+/**
+ * Prefix of every storage key that belongs to a canvas. The default canvas
+ * keeps the un-prefixed keys it had before there were rooms.
+ */
+export function getCanvasKeyPrefix(canvasId: string): string {
+  return canvasId === DEFAULT_CANVAS_ID ? APP_NAME : `${APP_NAME}:room:${canvasId}`;
+}
+
+export function isColorAllowed(palette: string[] | null, color: string): boolean {
+  return palette === null || palette.includes(color.toUpperCase());
+}
+
+function toRgb(color: string): [number, number, number] {
+  const value = parseInt(color.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * The palette entry closest to `color` by distance in RGB space.
+ */
+export function getNearestPaletteColor(palette: string[], color: string): string {
+  const [r, g, b] = toRgb(color);
+  let nearest = palette[0];
+  let nearestDistance = Infinity;
+  for (const entry of palette) {
+    const [pr, pg, pb] = toRgb(entry);
+    const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+    if (distance < nearestDistance) {
+      nearest = entry;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
@@ -0,0 +1,27 @@
+/**
+ * In-process notification that a canvas changed.
+ *
+ * Streams on the same instance as the writer are woken immediately;
+ * streams on other instances pick the change up on their next poll of the
+ * store's change log, which stays the single source of truth for ordering.
+ */
+type CanvasChangeListener = () => void;
+
+// Listeners by canvas ID
+const listeners = new Map<string, Set<CanvasChangeListener>>();
+
+export function subscribeToCanvasChanges(canvasId: string, listener: CanvasChangeListener): () => void {
+  const canvasListeners = listeners.get(canvasId) ?? new Set();
+  canvasListeners.add(listener);
+  listeners.set(canvasId, canvasListeners);
+  return () => {
+    canvasListeners.delete(listener);
+    if (canvasListeners.size === 0) listeners.delete(canvasId);
+  };
+}
+
+export function publishCanvasChange(canvasId: string) {
+  for (const listener of listeners.get(canvasId) ?? []) {
+    listener();
+  }
+}
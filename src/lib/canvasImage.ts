@@ -0,0 +1,71 @@
+import type { CanvasStore, Pixel } from './canvasStore';
+import { encodePng } from './png';
+
+export interface CanvasRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Largest width or height, in output pixels, an exported image may have */
+export const MAX_IMAGE_DIMENSION = 4096;
+
+// Unpainted pixels export as the board's black background
+const BACKGROUND = [0, 0, 0];
+
+const REPLAY_PAGE_SIZE = 2000;
+
+/**
+ * Rebuilds the board as it looked right after placement `sequence` by
+ * replaying the placement log.
+ */
+export async function getPixelsAtSequence(store: CanvasStore, sequence: number): Promise<Pixel[]> {
+  const pixels = new Map<string, Pixel>();
+  let after = 0;
+  while (after < sequence) {
+    const page = await store.getPlacements(after, REPLAY_PAGE_SIZE);
+    for (const pixel of page) {
+      if (pixel.seq > sequence) break;
+      if (pixel.color === null) {
+        pixels.delete(`${pixel.x},${pixel.y}`);
+      } else {
+        pixels.set(`${pixel.x},${pixel.y}`, pixel);
+      }
+    }
+    if (page.length < REPLAY_PAGE_SIZE) break;
+    after = page[page.length - 1].seq;
+  }
+  return Array.from(pixels.values());
+}
+
+/**
+ * Renders `region` of the board to a PNG, scaling each board pixel up to a
+ * `scale` × `scale` block (nearest-neighbor).
+ */
+export function renderCanvasPng(pixels: Pixel[], region: CanvasRegion, scale: number): Uint8Array<ArrayBuffer> {
+  const width = region.width * scale;
+  const height = region.height * scale;
+  const rgb = new Uint8Array(width * height * 3);
+
+  for (let i = 0; i < rgb.length; i += 3) {
+    rgb.set(BACKGROUND, i);
+  }
+
+  for (const pixel of pixels) {
+    const left = pixel.x - region.x;
+    const top = pixel.y - region.y;
+    if (pixel.color === null || left < 0 || left >= region.width || top < 0 || top >= region.height) continue;
+
+    const value = parseInt(pixel.color.slice(1), 16);
+    const color = [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+    for (let dy = 0; dy < scale; dy++) {
+      const rowStart = ((top * scale + dy) * width + left * scale) * 3;
+      for (let dx = 0; dx < scale; dx++) {
+        rgb.set(color, rowStart + dx * 3);
+      }
+    }
+  }
+
+  return encodePng(width, height, rgb);
+}
@@ -0,0 +1,104 @@
+import { MAX_BATCH_PIXELS } from './constants';
+import { redis } from './kv';
+import { getCanvasKeyPrefix, getNearestPaletteColor, isColorAllowed, type ActiveCanvas } from './canvasConfig';
+import { getCanvasStore, type CanvasStore, type Pixel } from './canvasStore';
+import { publishCanvasChange } from './canvasEvents';
+
+// The palette a board was last quantized to, so a change is detected once
+function getAppliedPaletteKey(canvasId: string): string {
+  return `${getCanvasKeyPrefix(canvasId)}:canvas:palette`;
+}
+
+// Held by the instance quantizing a board, so the others wait for it
+function getPaletteClaimKey(canvasId: string): string {
+  return `${getCanvasKeyPrefix(canvasId)}:canvas:palette:claim`;
+}
+
+// Longest a quantization may take before another instance takes over
+const PALETTE_CLAIM_MS = 60_000;
+const PALETTE_CLAIM_RETRY_MS = 250;
+
+// In-memory fallback storage: canvas ID -> palette fingerprint
+const localAppliedPalettes = new Map<string, string>();
+
+// Pending or finished palette checks by canvas ID
+const applying = new Map<string, Promise<void>>();
+
+/**
+ * Recolors every pixel outside `palette` to its nearest palette entry.
+ *
+ * Recolors are logged as placements marked `recolor`, credited to the
+ * pixel's original painter, so live clients, history and replays all pick
+ * them up.
+ *
+ * @returns The recolored pixels
+ */
+export async function quantizeCanvas(
+  canvasId: string,
+  store: CanvasStore,
+  palette: string[]
+): Promise<Pixel[]> {
+  const timestamp = Date.now();
+  const recolors: Omit<Pixel, 'seq'>[] = [];
+  for (const { x, y, color, user } of await store.getPixels()) {
+    if (color === null || isColorAllowed(palette, color)) continue;
+    recolors.push({ x, y, color: getNearestPaletteColor(palette, color), timestamp, user, kind: 'recolor' });
+  }
+
+  const placed: Pixel[] = [];
+  for (let i = 0; i < recolors.length; i += MAX_BATCH_PIXELS) {
+    placed.push(...await store.placePixels(recolors.slice(i, i + MAX_BATCH_PIXELS)));
+  }
+  if (placed.length > 0) {
+    publishCanvasChange(canvasId);
+  }
+  return placed;
+}
+
+async function quantizeIfPaletteChanged({ id, palette, season }: ActiveCanvas) {
+  const fingerprint = palette ? palette.join(',') : 'free';
+
+  const quantize = () => palette ? quantizeCanvas(id, getCanvasStore(id, season.number), palette) : null;
+
+  if (!redis) {
+    // `applying` already runs this once at a time per canvas
+    if (localAppliedPalettes.get(id) !== fingerprint) {
+      await quantize();
+      localAppliedPalettes.set(id, fingerprint);
+    }
+    return;
+  }
+
+  // The fingerprint is recorded only once the board is quantized, so a
+  // failed run is retried, and no instance accepts placements until then
+  for (;;) {
+    if ((await redis.get<string>(getAppliedPaletteKey(id))) === fingerprint) return;
+    const claimed = await redis.set(getPaletteClaimKey(id), fingerprint, { nx: true, px: PALETTE_CLAIM_MS });
+    if (claimed) {
+      try {
+        await quantize();
+        await redis.set(getAppliedPaletteKey(id), fingerprint);
+      } finally {
+        await redis.del(getPaletteClaimKey(id));
+      }
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, PALETTE_CLAIM_RETRY_MS));
+  }
+}
+
+/**
+ * Quantizes `canvas` the first time it is used after its palette changes.
+ * Cheap to call on every request: each process checks each canvas once.
+ */
+export function applyCanvasPalette(canvas: ActiveCanvas): Promise<void> {
+  let pending = applying.get(canvas.id);
+  if (!pending) {
+    pending = quantizeIfPaletteChanged(canvas).catch((error) => {
+      applying.delete(canvas.id);
+      throw error;
+    });
+    applying.set(canvas.id, pending);
+  }
+  return pending;
+}
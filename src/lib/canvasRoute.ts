@@ -0,0 +1,107 @@
+import { NextResponse } from 'next/server';
+import {
+  getCanvasConfig,
+  getCanvasStatus,
+  type ActiveCanvas,
+  type CanvasConfig,
+  type CanvasSeason,
+} from './canvasConfig';
+import { getSeasonArchive, startCanvasSeason, type SeasonArchive } from './canvasSeasons';
+import { isChannelMember } from './channels';
+
+/**
+ * Second argument of the `/api/canvas/[id]/...` route handlers.
+ */
+export interface CanvasRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Second argument of the `/api/canvas/[id]/seasons/[season]/...` route
+ * handlers.
+ */
+export interface SeasonRouteContext {
+  params: Promise<{ id: string; season: string }>;
+}
+
+/**
+ * Resolves the canvas a route was called for and the season being played
+ * on it.
+ *
+ * @returns The canvas, or a 404 response if there is no canvas with that ID
+ */
+export async function getRouteCanvas({ params }: CanvasRouteContext): Promise<ActiveCanvas | NextResponse> {
+  const { id } = await params;
+  const canvas = getCanvasConfig(id);
+  if (!canvas) {
+    return NextResponse.json(
+      { success: false, error: `Canvas "${id}" not found`, code: 'canvas_not_found' },
+      { status: 404 }
+    );
+  }
+  return startCanvasSeason(canvas);
+}
+
+/**
+ * Resolves the archived season a route was called for.
+ *
+ * @returns The canvas and archive, or a 404 response if either doesn't exist
+ */
+export async function getRouteSeasonArchive(
+  context: SeasonRouteContext
+): Promise<{ canvas: ActiveCanvas; archive: SeasonArchive } | NextResponse> {
+  const canvas = await getRouteCanvas(context);
+  if (canvas instanceof NextResponse) return canvas;
+  const season = Number((await context.params).season);
+  const archive = Number.isInteger(season) ? await getSeasonArchive(canvas.id, season) : null;
+  if (!archive) {
+    return NextResponse.json(
+      { success: false, error: 'Season not found', code: 'season_not_found' },
+      { status: 404 }
+    );
+  }
+  return { canvas, archive };
+}
+
+/**
+ * @returns A 403 response if `canvas` is not open for placements right now,
+ * otherwise null
+ */
+export function getCanvasClosedResponse(canvas: CanvasConfig): NextResponse | null {
+  const status = getCanvasStatus(canvas);
+  if (status === 'open') return null;
+  return NextResponse.json(
+    status === 'upcoming'
+      ? { success: false, error: 'This canvas has not opened yet', code: 'not_started', startsAt: canvas.startsAt }
+      : { success: false, error: 'This canvas has ended', code: 'ended', endsAt: canvas.endsAt },
+    { status: 403 }
+  );
+}
+
+/**
+ * 403 for a placement or undo that reached the store after `season` had
+ * ended and been sealed
+ */
+export function getSeasonEndedResponse(season: CanvasSeason): NextResponse {
+  return NextResponse.json(
+    { success: false, error: 'This season has ended', code: 'ended', endsAt: season.endsAt },
+    { status: 403 }
+  );
+}
+
+/**
+ * @returns A 403 response if `canvas` is bound to a channel that `fid` is
+ * not a member of, otherwise null
+ */
+export async function getChannelMembershipResponse(canvas: CanvasConfig, fid: number): Promise<NextResponse | null> {
+  if (canvas.channel === null || await isChannelMember(canvas.channel, fid)) return null;
+  return NextResponse.json(
+    {
+      success: false,
+      error: `Only members of /${canvas.channel} can paint on this canvas`,
+      code: 'not_channel_member',
+      channel: canvas.channel
+    },
+    { status: 403 }
+  );
+}
@@ -0,0 +1,218 @@
+import { redis } from './kv';
+import {
+  getCanvasKeyPrefix,
+  getCurrentSeason,
+  getSeason,
+  type ActiveCanvas,
+  type CanvasConfig,
+} from './canvasConfig';
+import { getCanvasStore, getRevertedPlacements, isPaintedPlacement, type CanvasStore, type Pixel } from './canvasStore';
+import { renderCanvasPng } from './canvasImage';
+
+export interface SeasonContributor {
+  user: string;
+  /** Pixels they placed during the season, not counting undone ones */
+  placed: number;
+  /** Their pixels left on the final board */
+  surviving: number;
+}
+
+/**
+ * What is kept of a finished season besides its sealed store: when it ran,
+ * how busy it was and who painted the most.
+ */
+export interface SeasonArchive {
+  season: number;
+  startsAt: number | null;
+  endsAt: number | null;
+  /** Sequence number of the season's last placement */
+  sequence: number;
+  /** Pixels placed during the season */
+  placements: number;
+  /** Painted pixels on the final board */
+  pixels: number;
+  /** Top painters by pixels placed */
+  contributors: SeasonContributor[];
+  archivedAt: number;
+}
+
+const TOP_CONTRIBUTORS = 10;
+// Largest side, in pixels, of a season's archived board image
+const ARCHIVE_IMAGE_SIZE = 512;
+const LOG_PAGE_SIZE = 2000;
+
+// Hash of season number -> SeasonArchive
+function getArchivesKey(canvasId: string): string {
+  return `${getCanvasKeyPrefix(canvasId)}:seasons`;
+}
+
+function getArchiveImageKey(canvasId: string, season: number): string {
+  return `${getCanvasKeyPrefix(canvasId)}:seasons:${season}:png`;
+}
+
+// The latest season any request was made in
+function getLastSeasonKey(canvasId: string): string {
+  return `${getCanvasKeyPrefix(canvasId)}:seasons:last`;
+}
+
+// In-memory fallback storage: canvas ID -> latest season
+const localLastSeasons = new Map<string, number>();
+// In-memory fallback storage, keyed by `${canvasId}:${season}`
+const localArchives = new Map<string, SeasonArchive>();
+const localImages = new Map<string, Uint8Array<ArrayBuffer>>();
+
+// Pending or finished archive runs by canvas ID and current season
+const starting = new Map<string, Promise<void>>();
+
+async function getContributors(
+  store: CanvasStore,
+  pixels: Pixel[]
+): Promise<{ placements: number; contributors: SeasonContributor[] }> {
+  const placed = new Map<string, number>();
+  let placements = 0;
+  let after = 0;
+  for (;;) {
+    const page = await store.getPlacements(after, LOG_PAGE_SIZE);
+    for (const pixel of page) {
+      if (!isPaintedPlacement(pixel)) continue;
+      placements++;
+      placed.set(pixel.user, (placed.get(pixel.user) ?? 0) + 1);
+    }
+    for (const placement of await getRevertedPlacements(store, page)) {
+      if (!isPaintedPlacement(placement)) continue;
+      placements--;
+      placed.set(placement.user, (placed.get(placement.user) ?? 0) - 1);
+    }
+    if (page.length < LOG_PAGE_SIZE) break;
+    after = page[page.length - 1].seq;
+  }
+
+  const surviving = new Map<string, number>();
+  for (const pixel of pixels) {
+    surviving.set(pixel.user, (surviving.get(pixel.user) ?? 0) + 1);
+  }
+
+  const contributors = Array.from(placed, ([user, count]) => ({
+    user,
+    placed: count,
+    surviving: surviving.get(user) ?? 0,
+  }))
+    .filter(contributor => contributor.placed > 0)
+    .sort((a, b) => b.placed - a.placed || b.surviving - a.surviving)
+    .slice(0, TOP_CONTRIBUTORS);
+  return { placements, contributors };
+}
+
+/**
+ * Seals season `number`'s store so its placement log is final, then
+ * records its final board image and top contributors. Safe to run again.
+ */
+async function archiveSeason(canvas: CanvasConfig, number: number): Promise<void> {
+  const store = getCanvasStore(canvas.id, number);
+  await store.seal();
+  const [sequence, pixels] = await Promise.all([store.getSequence(), store.getPixels()]);
+  const { placements, contributors } = await getContributors(store, pixels);
+  if (placements === 0) return;
+
+  const season = getSeason(canvas, number);
+  const archive: SeasonArchive = {
+    season: number,
+    startsAt: season.startsAt,
+    endsAt: season.endsAt,
+    sequence,
+    placements,
+    pixels: pixels.length,
+    contributors,
+    archivedAt: Date.now(),
+  };
+
+  const scale = Math.max(1, Math.floor(ARCHIVE_IMAGE_SIZE / canvas.size));
+  const image = renderCanvasPng(pixels, { x: 0, y: 0, width: canvas.size, height: canvas.size }, scale);
+
+  // The image is written first so a listed season always has one
+  if (redis) {
+    await redis.set(getArchiveImageKey(canvas.id, number), Buffer.from(image).toString('base64'));
+    await redis.hset(getArchivesKey(canvas.id), { [number]: archive });
+  } else {
+    localImages.set(`${canvas.id}:${number}`, image);
+    localArchives.set(`${canvas.id}:${number}`, archive);
+  }
+}
+
+async function archiveEndedSeasons(canvas: CanvasConfig, current: number): Promise<void> {
+  // Only the last season a request was made in needs archiving: placing
+  // goes through here, so seasons nobody made a request in had no
+  // placements. The marker moves on only once that season is archived, so
+  // a failed run is retried; instances racing here archive it twice, which
+  // is harmless.
+  const previous = redis
+    ? await redis.get<number>(getLastSeasonKey(canvas.id))
+    : localLastSeasons.get(canvas.id) ?? null;
+
+  // Boards from before seasons were switched on are season 1
+  const last = previous ?? 1;
+  if (last < current) {
+    await archiveSeason(canvas, last);
+  }
+  if (previous === null || last < current) {
+    if (redis) {
+      await redis.set(getLastSeasonKey(canvas.id), current);
+    } else {
+      localLastSeasons.set(canvas.id, current);
+    }
+  }
+}
+
+/**
+ * Resolves the season being played on `canvas`, first archiving any season
+ * that has ended since. Cheap to call on every request: each process
+ * checks once per season.
+ */
+export async function startCanvasSeason(canvas: CanvasConfig): Promise<ActiveCanvas> {
+  const season = getCurrentSeason(canvas);
+  const key = `${canvas.id}:${season.number}`;
+  let pending = starting.get(key);
+  if (!pending) {
+    pending = archiveEndedSeasons(canvas, season.number).catch((error) => {
+      starting.delete(key);
+      throw error;
+    });
+    starting.set(key, pending);
+  }
+  await pending;
+  return { ...canvas, season };
+}
+
+/** Archives of `canvasId`'s finished seasons, newest first */
+export async function getSeasonArchives(canvasId: string): Promise<SeasonArchive[]> {
+  let archives: SeasonArchive[];
+  if (redis) {
+    const stored = await redis.hgetall<Record<string, SeasonArchive>>(getArchivesKey(canvasId));
+    archives = stored ? Object.values(stored) : [];
+  } else {
+    archives = Array.from(localArchives.entries())
+      .filter(([key]) => key.startsWith(`${canvasId}:`))
+      .map(([, archive]) => archive);
+  }
+  return archives.sort((a, b) => b.season - a.season);
+}
+
+/**
+ * The archive of `canvasId`'s season `season`, or null if that season
+ * hasn't ended or nobody painted in it.
+ */
+export async function getSeasonArchive(canvasId: string, season: number): Promise<SeasonArchive | null> {
+  if (redis) {
+    return await redis.hget<SeasonArchive>(getArchivesKey(canvasId), String(season));
+  }
+  return localArchives.get(`${canvasId}:${season}`) ?? null;
+}
+
+/** PNG of season `season`'s final board, or null if there is none */
+export async function getSeasonImage(canvasId: string, season: number): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (redis) {
+    const encoded = await redis.get<string>(getArchiveImageKey(canvasId, season));
+    return encoded === null ? null : new Uint8Array(Buffer.from(encoded, 'base64'));
+  }
+  return localImages.get(`${canvasId}:${season}`) ?? null;
+}
@@ -0,0 +1,70 @@
+import type { Pixel } from './canvasStore';
+import type { PixelBuffer } from './pixelBuffer';
+
+/**
+ * Binary canvas snapshot format (all integers big-endian):
+ *
+ * | offset | size | field                                  |
+ * |--------|------|----------------------------------------|
+ * | 0      | 1    | format version (2)                     |
+ * | 1      | 1    | reserved (0)                           |
+ * | 2      | 2    | canvas size N                          |
+ * | 4      | 4    | sequence number, high 32 bits          |
+ * | 8      | 4    | sequence number, low 32 bits           |
+ * | 12     | N²×4 | RGBA pixels, row by row                |
+ *
+ * The sequence number is the one the snapshot reflects. Seasons number
+ * their placements from far apart offsets, so it outgrows 32 bits.
+ * Unpainted pixels have alpha 0. The pixel section has the same layout as
+ * `ImageData`, so clients copy it straight into their render buffer.
+ */
+export const SNAPSHOT_VERSION = 2;
+const HEADER_BYTES = 12;
+const UINT32_RANGE = 2 ** 32;
+
+/**
+ * @throws If `sequence` is not a non-negative safe integer
+ */
+export function encodeCanvasSnapshot(pixels: Pixel[], size: number, sequence: number): Uint8Array<ArrayBuffer> {
+  if (!Number.isSafeInteger(sequence) || sequence < 0) {
+    throw new Error(`Sequence number ${sequence} can't be stored in a snapshot`);
+  }
+  const bytes = new Uint8Array(HEADER_BYTES + size * size * 4);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, SNAPSHOT_VERSION);
+  view.setUint16(2, size);
+  view.setUint32(4, Math.floor(sequence / UINT32_RANGE));
+  view.setUint32(8, sequence % UINT32_RANGE);
+
+  for (const pixel of pixels) {
+    if (pixel.color === null || pixel.x < 0 || pixel.x >= size || pixel.y < 0 || pixel.y >= size) continue;
+    const value = parseInt(pixel.color.slice(1), 16);
+    const offset = HEADER_BYTES + (pixel.y * size + pixel.x) * 4;
+    bytes[offset] = (value >> 16) & 0xff;
+    bytes[offset + 1] = (value >> 8) & 0xff;
+    bytes[offset + 2] = value & 0xff;
+    bytes[offset + 3] = 0xff;
+  }
+
+  return bytes;
+}
+
+/**
+ * Copies a snapshot into `buffer`, replacing its contents.
+ *
+ * @returns The sequence number the snapshot reflects
+ * @throws If the snapshot's version or size doesn't match the buffer
+ */
+export function decodeCanvasSnapshot(snapshot: ArrayBuffer, buffer: PixelBuffer): number {
+  const view = new DataView(snapshot);
+  if (view.getUint8(0) !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${view.getUint8(0)}`);
+  }
+  if (view.getUint16(2) !== buffer.size) {
+    throw new Error(`Snapshot size ${view.getUint16(2)} does not match canvas size ${buffer.size}`);
+  }
+
+  buffer.data.set(new Uint8Array(snapshot, HEADER_BYTES, buffer.size * buffer.size * 4));
+  buffer.dirty = { x: 0, y: 0, width: buffer.size, height: buffer.size };
+  return view.getUint32(4) * UINT32_RANGE + view.getUint32(8);
+}
@@ -0,0 +1,422 @@
+import { redis } from './kv';
+import { getCanvasKeyPrefix } from './canvasConfig';
+
+export interface Pixel {
+  x: number;
+  y: number;
+  /**
+   * `#RRGGBB`, or null for a placement that cleared the coordinate back to
+   * unpainted (an undone first placement). Only logs hold null pixels;
+   * `getPixels` and `getPixel` never return them.
+   */
+  color: string | null;
+  timestamp: number;
+  user: string;
+  /** Position of this placement in the canvas' global placement order */
+  seq: number;
+  /**
+   * Set on logged placements nobody painted: `restore` for what an undo put
+   * back (including clears), `recolor` for a pixel recolored to fit a new
+   * palette
+   */
+  kind?: 'restore' | 'recolor';
+  /** For restores, the sequence number of the placement that was undone */
+  reverts?: number;
+}
+
+/** Thrown when writing to a store whose season has ended and been sealed */
+export class CanvasSealedError extends Error {
+  constructor() {
+    super('Canvas is sealed');
+    this.name = 'CanvasSealedError';
+  }
+}
+
+/**
+ * Storage backend for the shared pixel canvas.
+ *
+ * Each coordinate holds at most one pixel; placing a pixel replaces
+ * whatever was previously painted at the same (x, y). Every placement is
+ * assigned the next sequence number and kept in a bounded change log so
+ * clients can catch up on what they missed. Placements are also kept in
+ * an append-only log, both globally and per coordinate.
+ */
+export interface CanvasStore {
+  getPixels(): Promise<Pixel[]>;
+  getPixel(x: number, y: number): Promise<Pixel | null>;
+  placePixel(pixel: Omit<Pixel, 'seq'>): Promise<Pixel>;
+  /**
+   * Places several pixels atomically, with consecutive sequence numbers in
+   * the given order. No other placement can interleave with the batch.
+   */
+  placePixels(pixels: Omit<Pixel, 'seq'>[]): Promise<Pixel[]>;
+  /**
+   * Atomically reverts `placements`, as long as each is still the newest
+   * pixel at its coordinate. The pixel painted before each one is placed
+   * again under a new sequence number, or, if there was none, the
+   * coordinate is cleared with a null-colored placement by `user`. Either
+   * way it is marked as a `restore` of the placement it reverts.
+   *
+   * @returns The new placements, or null (and no changes) if any of them
+   * has been painted over
+   */
+  revertPlacements(placements: Pixel[], user: string): Promise<Pixel[] | null>;
+  /** Sequence number of the most recent placement (0 for an empty canvas) */
+  getSequence(): Promise<number>;
+  /**
+   * Placements with a sequence number greater than `since`, in order.
+   * Returns null if `since` is older than the retained change log.
+   */
+  getChangesSince(since: number): Promise<Pixel[] | null>;
+  /** The most recent `limit` placements at (x, y), newest first */
+  getPixelHistory(x: number, y: number, limit: number): Promise<Pixel[]>;
+  /** Up to `limit` placements from the full log with sequence numbers after `after`, in order */
+  getPlacements(after: number, limit: number): Promise<Pixel[]>;
+  /**
+   * Permanently closes the canvas: placing or reverting afterwards throws,
+   * while everything already placed stays readable.
+   */
+  seal(): Promise<void>;
+}
+
+/**
+ * Whether a logged placement was painted by its user, rather than put back
+ * by an undo or recolored to fit a palette. Clears logged before restores
+ * were marked are undone first placements, which nobody painted either.
+ */
+export function isPaintedPlacement(pixel: Pixel): boolean {
+  return pixel.kind === undefined && pixel.color !== null;
+}
+
+/**
+ * The placements undone by the restores in `page`, a page of `store`'s
+ * log. Undos follow within seconds, so most are in `page` itself; the rest
+ * are read from the log one at a time.
+ */
+export async function getRevertedPlacements(store: CanvasStore, page: Pixel[]): Promise<Pixel[]> {
+  const bySeq = new Map(page.map(pixel => [pixel.seq, pixel]));
+  const reverted: Pixel[] = [];
+  for (const { reverts } of page) {
+    if (reverts === undefined) continue;
+    const placement = bySeq.get(reverts) ?? (await store.getPlacements(reverts - 1, 1))[0];
+    if (placement?.seq === reverts) reverted.push(placement);
+  }
+  return reverted;
+}
+
+/** Number of most recent placements kept in the change log */
+export const CHANGE_LOG_LIMIT = 5000;
+
+// Each season numbers its placements from its own block of sequence
+// numbers, so they keep increasing across seasons and a client still on
+// the previous season's board always finds a gap and resyncs.
+const SEASON_SEQUENCE_STRIDE = 10_000_000;
+
+/** Sequence number a season's store starts from; its first placement gets the next one */
+export function getSeasonSequenceOffset(season: number): number {
+  return (season - 1) * SEASON_SEQUENCE_STRIDE;
+}
+
+/** The season whose store assigned sequence number `seq` */
+export function getSequenceSeason(seq: number): number {
+  return Math.floor((seq - 1) / SEASON_SEQUENCE_STRIDE) + 1;
+}
+
+function getPixelField(x: number, y: number): string {
+  return `${x},${y}`;
+}
+
+// A log is complete for `since` when nothing between it and the first
+// retained change has been trimmed away.
+function isContiguous(changes: Pixel[], since: number, sequence: number): boolean {
+  if (since > sequence) return false;
+  if (since === sequence) return true;
+  return changes.length > 0 && changes[0].seq === since + 1;
+}
+
+/**
+ * @param sequenceOffset Sequence number the canvas starts from
+ */
+export function createMemoryCanvasStore(sequenceOffset = 0): CanvasStore {
+  const pixels = new Map<string, Pixel>();
+  const history = new Map<string, Pixel[]>();
+  const log: Pixel[] = [];
+  const changes: Pixel[] = [];
+  let sequence = sequenceOffset;
+  let sealed = false;
+
+  const placePixels = async (batch: Omit<Pixel, 'seq'>[]) => {
+    if (sealed) {
+      throw new CanvasSealedError();
+    }
+    const placed = batch.map(pixel => ({ ...pixel, seq: ++sequence }));
+    for (const pixel of placed) {
+      const field = getPixelField(pixel.x, pixel.y);
+      if (pixel.color === null) {
+        pixels.delete(field);
+      } else {
+        pixels.set(field, pixel);
+      }
+      const entries = history.get(field) || [];
+      entries.push(pixel);
+      history.set(field, entries);
+      log.push(pixel);
+      changes.push(pixel);
+    }
+    if (changes.length > CHANGE_LOG_LIMIT) {
+      changes.splice(0, changes.length - CHANGE_LOG_LIMIT);
+    }
+    return placed;
+  };
+
+  return {
+    async getPixels() {
+      return Array.from(pixels.values());
+    },
+    async getPixel(x, y) {
+      return pixels.get(getPixelField(x, y)) || null;
+    },
+    async placePixel(pixel) {
+      const [placed] = await placePixels([pixel]);
+      return placed;
+    },
+    placePixels,
+    async revertPlacements(placements, user) {
+      if (sealed) {
+        throw new CanvasSealedError();
+      }
+      if (placements.some(placement => pixels.get(getPixelField(placement.x, placement.y))?.seq !== placement.seq)) {
+        return null;
+      }
+      const timestamp = Date.now();
+      return placePixels(placements.map(({ x, y, seq }) => {
+        const entries = history.get(getPixelField(x, y)) || [];
+        const previous = entries[entries.length - 2];
+        if (!previous) return { x, y, color: null, timestamp, user, kind: 'restore', reverts: seq };
+        const { seq: _seq, ...restored } = previous;
+        return { ...restored, kind: 'restore', reverts: seq };
+      }));
+    },
+    async getSequence() {
+      return sequence;
+    },
+    async getChangesSince(since) {
+      const result = changes.filter(change => change.seq > since);
+      return isContiguous(result, since, sequence) ? result : null;
+    },
+    async getPixelHistory(x, y, limit) {
+      return (history.get(getPixelField(x, y)) || []).slice(-limit).reverse();
+    },
+    async getPlacements(after, limit) {
+      const start = log.findIndex(placement => placement.seq > after);
+      return start === -1 ? [] : log.slice(start, start + limit);
+    },
+    async seal() {
+      sealed = true;
+    },
+  };
+}
+
+// Assigning the sequence numbers and writing the pixels, change log and
+// history in one script keeps the logs in sequence order across instances.
+// KEYS: sequence, pixels, changes, log, sealed flag, then one history key
+// per pixel.
+// ARGV: change log limit, sequence offset, then the JSON and hash field of
+// each pixel.
+// Returns -1 if the canvas is sealed.
+const PLACE_PIXELS_SCRIPT = `
+if redis.call('EXISTS', KEYS[5]) == 1 then
+  return -1
+end
+local count = #KEYS - 5
+redis.call('SET', KEYS[1], ARGV[2], 'NX')
+local first = redis.call('INCRBY', KEYS[1], count) - count + 1
+for i = 1, count do
+  local seq = first + i - 1
+  local encoded = '{"seq":' .. seq .. ',' .. string.sub(ARGV[i * 2 + 1], 2)
+  redis.call('HSET', KEYS[2], ARGV[i * 2 + 2], encoded)
+  redis.call('ZADD', KEYS[3], seq, encoded)
+  redis.call('RPUSH', KEYS[5 + i], encoded)
+  redis.call('ZADD', KEYS[4], seq, encoded)
+end
+redis.call('ZREMRANGEBYRANK', KEYS[3], 0, -tonumber(ARGV[1]) - 1)
+return first
+`;
+
+// Checks that every placement is still current, then re-places the entry
+// before it in each coordinate's history (or a null-colored clear) in one
+// script, so nothing can paint in between.
+// KEYS: sequence, pixels, changes, log, sealed flag, then one history key
+// per placement.
+// ARGV: change log limit, sequence offset, then per placement its hash
+// field, sequence number and the JSON of the clear to use when it has no
+// predecessor.
+// Returns -1 if a placement was painted over, -2 if the canvas is sealed.
+const REVERT_PLACEMENTS_SCRIPT = `
+if redis.call('EXISTS', KEYS[5]) == 1 then
+  return -2
+end
+local count = #KEYS - 5
+for i = 1, count do
+  local current = redis.call('HGET', KEYS[2], ARGV[i * 3])
+  if not current or cjson.decode(current).seq ~= tonumber(ARGV[i * 3 + 1]) then
+    return -1
+  end
+end
+redis.call('SET', KEYS[1], ARGV[2], 'NX')
+local first = redis.call('INCRBY', KEYS[1], count) - count + 1
+for i = 1, count do
+  local seq = first + i - 1
+  local field = ARGV[i * 3]
+  local pixel = cjson.decode(ARGV[i * 3 + 2])
+  local previous = redis.call('LINDEX', KEYS[5 + i], -2)
+  if previous then
+    pixel = cjson.decode(previous)
+  end
+  pixel.kind = 'restore'
+  pixel.reverts = tonumber(ARGV[i * 3 + 1])
+  pixel.seq = seq
+  local encoded = cjson.encode(pixel)
+  if pixel.color == cjson.null then
+    redis.call('HDEL', KEYS[2], field)
+  else
+    redis.call('HSET', KEYS[2], field, encoded)
+  end
+  redis.call('ZADD', KEYS[3], seq, encoded)
+  redis.call('RPUSH', KEYS[5 + i], encoded)
+  redis.call('ZADD', KEYS[4], seq, encoded)
+end
+redis.call('ZREMRANGEBYRANK', KEYS[3], 0, -tonumber(ARGV[1]) - 1)
+return first
+`;
+
+/**
+ * @param keyPrefix Prefix of every key the store uses, see `getCanvasKeyPrefix`
+ * @param sequenceOffset Sequence number the canvas starts from
+ */
+export function createRedisCanvasStore(
+  client: NonNullable<typeof redis>,
+  keyPrefix: string,
+  sequenceOffset = 0
+): CanvasStore {
+  const PIXELS_KEY = `${keyPrefix}:canvas:pixels`;
+  const SEQUENCE_KEY = `${keyPrefix}:canvas:seq`;
+  const CHANGES_KEY = `${keyPrefix}:canvas:changes`;
+  const LOG_KEY = `${keyPrefix}:canvas:log`;
+  const SEALED_KEY = `${keyPrefix}:canvas:sealed`;
+  const getPixelHistoryKey = (x: number, y: number) => `${keyPrefix}:canvas:history:${getPixelField(x, y)}`;
+
+  const placePixels = async (batch: Omit<Pixel, 'seq'>[]) => {
+    if (batch.length === 0) return [];
+    const first = await client.eval<string[], number>(
+      PLACE_PIXELS_SCRIPT,
+      [
+        SEQUENCE_KEY,
+        PIXELS_KEY,
+        CHANGES_KEY,
+        LOG_KEY,
+        SEALED_KEY,
+        ...batch.map(pixel => getPixelHistoryKey(pixel.x, pixel.y)),
+      ],
+      [
+        String(CHANGE_LOG_LIMIT),
+        String(sequenceOffset),
+        ...batch.flatMap(pixel => [JSON.stringify(pixel), getPixelField(pixel.x, pixel.y)]),
+      ]
+    );
+    if (first === -1) {
+      throw new CanvasSealedError();
+    }
+    return batch.map((pixel, index) => ({ ...pixel, seq: first + index }));
+  };
+
+  return {
+    async getPixels() {
+      const pixels = await client.hgetall<Record<string, Pixel>>(PIXELS_KEY);
+      return pixels ? Object.values(pixels) : [];
+    },
+    async getPixel(x, y) {
+      return await client.hget<Pixel>(PIXELS_KEY, getPixelField(x, y));
+    },
+    async placePixel(pixel) {
+      const [placed] = await placePixels([pixel]);
+      return placed;
+    },
+    placePixels,
+    async revertPlacements(placements, user) {
+      if (placements.length === 0) return [];
+      const timestamp = Date.now();
+      const first = await client.eval<string[], number>(
+        REVERT_PLACEMENTS_SCRIPT,
+        [
+          SEQUENCE_KEY,
+          PIXELS_KEY,
+          CHANGES_KEY,
+          LOG_KEY,
+          SEALED_KEY,
+          ...placements.map(placement => getPixelHistoryKey(placement.x, placement.y)),
+        ],
+        [
+          String(CHANGE_LOG_LIMIT),
+          String(sequenceOffset),
+          ...placements.flatMap(({ x, y, seq }) => [
+            getPixelField(x, y),
+            String(seq),
+            JSON.stringify({ x, y, color: null, timestamp, user }),
+          ]),
+        ]
+      );
+      if (first === -2) {
+        throw new CanvasSealedError();
+      }
+      if (first === -1) return null;
+      // Read back what the script restored, since the previous pixels live in Redis
+      return await client.zrange<Pixel[]>(LOG_KEY, first, first + placements.length - 1, { byScore: true });
+    },
+    async getSequence() {
+      return (await client.get<number>(SEQUENCE_KEY)) ?? sequenceOffset;
+    },
+    async getChangesSince(since) {
+      const [sequence, changes] = await Promise.all([
+        client.get<number>(SEQUENCE_KEY),
+        client.zrange<Pixel[]>(CHANGES_KEY, `(${since}`, '+inf', { byScore: true }),
+      ]);
+      return isContiguous(changes, since, sequence ?? sequenceOffset) ? changes : null;
+    },
+    async getPixelHistory(x, y, limit) {
+      const history = await client.lrange<Pixel>(getPixelHistoryKey(x, y), -limit, -1);
+      return history.reverse();
+    },
+    async getPlacements(after, limit) {
+      return await client.zrange<Pixel[]>(LOG_KEY, `(${after}`, '+inf', {
+        byScore: true,
+        offset: 0,
+        count: limit,
+      });
+    },
+    async seal() {
+      await client.set(SEALED_KEY, 1);
+    },
+  };
+}
+
+const canvasStores = new Map<string, CanvasStore>();
+
+/**
+ * The store holding canvas `canvasId`'s pixels in `season`. Uses Redis if
+ * KV env vars are present, otherwise in-memory storage.
+ */
+export function getCanvasStore(canvasId: string, season: number): CanvasStore {
+  const key = `${canvasId}:${season}`;
+  let store = canvasStores.get(key);
+  if (!store) {
+    // Season 1 keeps the keys canvases had before there were seasons
+    const prefix = season === 1 ? getCanvasKeyPrefix(canvasId) : `${getCanvasKeyPrefix(canvasId)}:season:${season}`;
+    const sequenceOffset = getSeasonSequenceOffset(season);
+    store = redis
+      ? createRedisCanvasStore(redis, prefix, sequenceOffset)
+      : createMemoryCanvasStore(sequenceOffset);
+    canvasStores.set(key, store);
+  }
+  return store;
+}
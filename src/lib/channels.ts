@@ -0,0 +1,77 @@
+import { APP_NAME } from './constants';
+import { redis } from './kv';
+import { getNeynarClient } from './neynar';
+
+/**
+ * The Farcaster channel a canvas is bound to, as shown in its header and
+ * share card.
+ */
+export interface CanvasChannel {
+  id: string;
+  name: string;
+  imageUrl: string | null;
+}
+
+// Channel details rarely change; membership is re-checked more often so
+// people who join can start painting soon after
+const CHANNEL_CACHE_MS = 60 * 60 * 1000;
+const MEMBERSHIP_CACHE_SECONDS = 5 * 60;
+
+// In-memory caches
+const localChannels = new Map<string, { channel: CanvasChannel; expiresAt: number }>();
+const localMemberships = new Map<string, { isMember: boolean; expiresAt: number }>();
+
+function getMembershipKey(channelId: string, fid: number): string {
+  return `${APP_NAME}:channel:${channelId}:member:${fid}`;
+}
+
+/**
+ * Looks up a channel through Neynar.
+ *
+ * @returns The channel, or null if it doesn't exist or Neynar is unavailable
+ */
+export async function getChannel(channelId: string): Promise<CanvasChannel | null> {
+  const cached = localChannels.get(channelId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.channel;
+  }
+  try {
+    const { channel } = await getNeynarClient().lookupChannel({ id: channelId });
+    const result = {
+      id: channel.id,
+      name: channel.name ?? channel.id,
+      imageUrl: channel.image_url ?? null,
+    };
+    localChannels.set(channelId, { channel: result, expiresAt: Date.now() + CHANNEL_CACHE_MS });
+    return result;
+  } catch (error) {
+    console.error('Error getting Neynar channel:', error);
+    return null;
+  }
+}
+
+/**
+ * Whether `fid` is a member of the channel, according to Neynar.
+ *
+ * @throws If Neynar can't be reached, so callers fail closed
+ */
+export async function isChannelMember(channelId: string, fid: number): Promise<boolean> {
+  const key = getMembershipKey(channelId, fid);
+  if (redis) {
+    const cached = await redis.get<number>(key);
+    if (cached !== null) return cached === 1;
+  } else {
+    const cached = localMemberships.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.isMember;
+  }
+
+  const { members } = await getNeynarClient().fetchChannelMembers({ channelId, fid, limit: 1 });
+  const isMember = members.some(member => member.user.fid === fid);
+
+  if (redis) {
+    await redis.set(key, isMember ? 1 : 0, { ex: MEMBERSHIP_CACHE_SECONDS });
+  } else {
+    localMemberships.set(key, { isMember, expiresAt: Date.now() + MEMBERSHIP_CACHE_SECONDS * 1000 });
+  }
+  return isMember;
+}
@@ -0,0 +1,63 @@
+/**
+ * A user's recently used and saved colors. Kept in localStorage and synced
+ * to the server per FID; whichever copy has the newer `updatedAt` wins.
+ */
+export interface ColorPreferences {
+  /** Most recently placed colors, newest first */
+  recent: string[];
+  /** Custom swatches the user saved, in the order they were added */
+  saved: string[];
+  /** Unix timestamp (ms) of the last change */
+  updatedAt: number;
+}
+
+export const MAX_RECENT_COLORS = 8;
+export const MAX_SAVED_COLORS = 16;
+
+export const EMPTY_COLOR_PREFERENCES: ColorPreferences = { recent: [], saved: [], updatedAt: 0 };
+
+function normalizeColors(value: unknown, limit: number): string[] | null {
+  if (!Array.isArray(value)) return null;
+  if (!value.every(color => typeof color === 'string' && /^#[0-9A-F]{6}$/i.test(color))) return null;
+  return Array.from(new Set(value.map(color => color.toUpperCase()))).slice(0, limit);
+}
+
+/**
+ * Validates preferences read from storage or a request body, upper-casing
+ * colors and dropping duplicates. Returns null if the shape is wrong.
+ */
+export function parseColorPreferences(value: unknown): ColorPreferences | null {
+  const { recent, saved, updatedAt } = (value ?? {}) as Record<string, unknown>;
+  const recentColors = normalizeColors(recent, MAX_RECENT_COLORS);
+  const savedColors = normalizeColors(saved, MAX_SAVED_COLORS);
+  if (!recentColors || !savedColors || typeof updatedAt !== 'number') return null;
+  return { recent: recentColors, saved: savedColors, updatedAt };
+}
+
+export function addRecentColor(preferences: ColorPreferences, color: string): ColorPreferences {
+  const normalized = color.toUpperCase();
+  if (preferences.recent[0] === normalized) return preferences;
+  return {
+    ...preferences,
+    recent: [normalized, ...preferences.recent.filter(c => c !== normalized)].slice(0, MAX_RECENT_COLORS),
+    updatedAt: Date.now(),
+  };
+}
+
+export function addSavedColor(preferences: ColorPreferences, color: string): ColorPreferences {
+  const normalized = color.toUpperCase();
+  if (preferences.saved.includes(normalized)) return preferences;
+  return {
+    ...preferences,
+    saved: [...preferences.saved, normalized].slice(-MAX_SAVED_COLORS),
+    updatedAt: Date.now(),
+  };
+}
+
+export function removeSavedColor(preferences: ColorPreferences, color: string): ColorPreferences {
+  return {
+    ...preferences,
+    saved: preferences.saved.filter(c => c !== color.toUpperCase()),
+    updatedAt: Date.now(),
+  };
+}
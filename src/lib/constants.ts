@@ -144,7 +144,58 @@ export const SIGNED_KEY_REQUEST_TYPE = [
 // CastCanvas specific constants
 export const CANVAS_SIZE = 200;
 export const DAILY_PIXEL_LIMIT = 5;
+export const UNDO_WINDOW_MS = 10_000; // How long after placing a placement can be undone
+// Wait before a user's next placement, per pixel placed from each balance
+export const PLACEMENT_COOLDOWN_MS = 5_000;
+export const PURCHASED_PLACEMENT_COOLDOWN_MS = 15_000;
+export const MAX_BATCH_PIXELS = 500; // Most pixels a single drawing tool action may place
 export const PIXELS_PER_PURCHASE = 10;
 export const PRICE_PER_PURCHASE = 0.001; // 0.001 ETH on Base
 export const PAYMENT_WALLET = "0xD283D8510c859654da74910240d56CC571329761"; // Base network wallet
 export const REQUIRED_CHAIN_ID = 8453; // Base mainnet
+
+// The 32-color palette from r/place 2022
+export const RPLACE_PALETTE = [
+  "#6D001A", "#BE0039", "#FF4500", "#FFA800", "#FFD635", "#FFF8B8", "#00A368", "#00CC78",
+  "#7EED56", "#00756F", "#009EAA", "#00CCC0", "#2450A4", "#3690EA", "#51E9F4", "#493AC1",
+  "#6A5CFF", "#94B3FF", "#811E9F", "#B44AC0", "#E4ABFF", "#DE107F", "#FF3881", "#FF99AA",
+  "#6D482F", "#9C6926", "#FFB470", "#000000", "#515252", "#898D90", "#D4D7D9", "#FFFFFF",
+];
+// Colors pixels may be placed in, e.g. RPLACE_PALETTE; null accepts any #RRGGBB.
+// Existing pixels are recolored to the nearest entry when this changes.
+export const CANVAS_PALETTE: string[] | null = null;
+// Length of a season in days, after which the board is archived and a blank
+// one takes its place; null plays a single endless season
+export const CANVAS_SEASON_DAYS: number | null = null;
+// When season 1 starts on boards without a `startsAt`
+export const CANVAS_SEASONS_START = '2026-01-01T00:00:00Z';
+
+/**
+ * A board besides the default one. Fields left out fall back to the
+ * default board's settings above.
+ */
+export interface CanvasRoomSettings {
+  /**
+   * URL slug: lower case letters, digits and dashes. Endpoint names like
+   * `config` or `history` are reserved, see `LEGACY_CANVAS_ROUTES`.
+   */
+  id: string;
+  name: string;
+  size?: number;
+  palette?: string[] | null;
+  dailyPixelLimit?: number;
+  /** Farcaster channel ID; only its members may paint, and shares cast into it */
+  channel?: string;
+  /** ISO 8601 times before and after which placing is closed */
+  startsAt?: string;
+  endsAt?: string;
+  /** Season length in days, counted from `startsAt`; null for a single season */
+  seasonDays?: number | null;
+}
+
+// The board served at /, configured by the settings above
+export const DEFAULT_CANVAS_ID = 'default';
+// Additional boards, each served at /c/<id> with its own pixels and daily
+// quota, e.g. { id: 'pixel-war', name: 'Pixel War', size: 100,
+// palette: RPLACE_PALETTE, endsAt: '2026-12-31T00:00:00Z' }
+export const CANVAS_ROOMS: CanvasRoomSettings[] = [];
@@ -0,0 +1,117 @@
+import { getBufferColor, type PixelBuffer } from './pixelBuffer';
+
+/**
+ * Geometry for the drawing tools. Every function returns the board pixels a
+ * tool would paint; placing them is left to the caller.
+ */
+
+export type DrawingTool = 'pencil' | 'line' | 'rectangle' | 'fill';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Pixels on the straight line between two points, both ends included
+ * (Bresenham's algorithm).
+ */
+export function getLinePoints(from: Point, to: Point): Point[] {
+  const points: Point[] = [];
+  const dx = Math.abs(to.x - from.x);
+  const dy = -Math.abs(to.y - from.y);
+  const stepX = from.x < to.x ? 1 : -1;
+  const stepY = from.y < to.y ? 1 : -1;
+  let error = dx + dy;
+  let { x, y } = from;
+
+  for (;;) {
+    points.push({ x, y });
+    if (x === to.x && y === to.y) break;
+    const doubled = 2 * error;
+    if (doubled >= dy) {
+      error += dy;
+      x += stepX;
+    }
+    if (doubled <= dx) {
+      error += dx;
+      y += stepY;
+    }
+  }
+  return points;
+}
+
+/**
+ * Outline of the rectangle with opposite corners `from` and `to`.
+ */
+export function getRectanglePoints(from: Point, to: Point): Point[] {
+  const left = Math.min(from.x, to.x);
+  const right = Math.max(from.x, to.x);
+  const top = Math.min(from.y, to.y);
+  const bottom = Math.max(from.y, to.y);
+  const points: Point[] = [];
+
+  for (let x = left; x <= right; x++) {
+    points.push({ x, y: top });
+    if (bottom !== top) points.push({ x, y: bottom });
+  }
+  for (let y = top + 1; y < bottom; y++) {
+    points.push({ x: left, y });
+    if (right !== left) points.push({ x: right, y });
+  }
+  return points;
+}
+
+/**
+ * The area of same-colored pixels (4-connected) around `start`, treating
+ * unpainted pixels as one color.
+ *
+ * @returns The area, or null if it is larger than `limit` pixels
+ */
+export function getFloodFillPoints(buffer: PixelBuffer, start: Point, limit: number): Point[] | null {
+  const target = getBufferColor(buffer, start.x, start.y);
+  const visited = new Uint8Array(buffer.size * buffer.size);
+  const points: Point[] = [];
+  const queue: Point[] = [start];
+  visited[start.y * buffer.size + start.x] = 1;
+
+  while (queue.length > 0) {
+    const point = queue.pop()!;
+    points.push(point);
+    if (points.length > limit) return null;
+
+    const neighbors = [
+      { x: point.x + 1, y: point.y },
+      { x: point.x - 1, y: point.y },
+      { x: point.x, y: point.y + 1 },
+      { x: point.x, y: point.y - 1 },
+    ];
+    for (const neighbor of neighbors) {
+      if (neighbor.x < 0 || neighbor.x >= buffer.size || neighbor.y < 0 || neighbor.y >= buffer.size) continue;
+      const index = neighbor.y * buffer.size + neighbor.x;
+      if (visited[index]) continue;
+      visited[index] = 1;
+      if (getBufferColor(buffer, neighbor.x, neighbor.y) === target) {
+        queue.push(neighbor);
+      }
+    }
+  }
+  return points;
+}
+
+/**
+ * Number of `points` that would change color, which is what placing them
+ * costs from the user's quota.
+ */
+export function getPlacementCost(buffer: PixelBuffer, points: Point[], color: string): number {
+  const normalized = color.toUpperCase();
+  const seen = new Set<string>();
+  let cost = 0;
+  for (const point of points) {
+    const key = `${point.x},${point.y}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    if (getBufferColor(buffer, point.x, point.y) !== normalized) cost++;
+  }
+  return cost;
+}
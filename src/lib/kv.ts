@@ -1,13 +1,15 @@
 import { MiniAppNotificationDetails } from '@farcaster/miniapp-sdk';
 import { Redis } from '@upstash/redis';
 import { APP_NAME } from './constants';
+import type { ColorPreferences } from './colorPreferences';
 
 // In-memory fallback storage
 const localStore = new Map<string, MiniAppNotificationDetails>();
+const localColorPreferences = new Map<string, ColorPreferences>();
 
 // Use Redis if KV env vars are present, otherwise use in-memory
 const useRedis = process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN;
-const redis = useRedis
+export const redis = useRedis
   ? new Redis({
       url: process.env.KV_REST_API_URL!,
       token: process.env.KV_REST_API_TOKEN!,
@@ -50,3 +52,29 @@ export async function deleteUserNotificationDetails(
     localStore.delete(key);
   }
 }
+
+function getUserColorPreferencesKey(fid: number): string {
+  return `${APP_NAME}:user:${fid}:colors`;
+}
+
+export async function getUserColorPreferences(
+  fid: number
+): Promise<ColorPreferences | null> {
+  const key = getUserColorPreferencesKey(fid);
+  if (redis) {
+    return await redis.get<ColorPreferences>(key);
+  }
+  return localColorPreferences.get(key) || null;
+}
+
+export async function setUserColorPreferences(
+  fid: number,
+  preferences: ColorPreferences
+): Promise<void> {
+  const key = getUserColorPreferencesKey(fid);
+  if (redis) {
+    await redis.set(key, preferences);
+  } else {
+    localColorPreferences.set(key, preferences);
+  }
+}
@@ -0,0 +1,237 @@
+import type { ActiveCanvas } from './canvasConfig';
+import { getCanvasStore, getRevertedPlacements, isPaintedPlacement, type Pixel } from './canvasStore';
+import { getSeasonArchives } from './canvasSeasons';
+
+/**
+ * - `day`: since 00:00 UTC, in the current season
+ * - `season`: the current season
+ * - `all`: every season of the canvas
+ */
+export type LeaderboardPeriod = 'day' | 'season' | 'all';
+export type LeaderboardMetric = 'placed' | 'surviving' | 'territory';
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['day', 'season', 'all'];
+export const LEADERBOARD_METRICS: LeaderboardMetric[] = ['placed', 'surviving', 'territory'];
+
+export interface LeaderboardEntry {
+  user: string;
+  /** Position by the leaderboard's metric, from 1 */
+  rank: number;
+  /** Pixels placed during the period, not counting undone ones */
+  placed: number;
+  /**
+   * Pixels placed during the period that are still on the board; for past
+   * seasons, on their final board
+   */
+  surviving: number;
+  /** Territory cells where the user has the most surviving pixels */
+  territory: number;
+}
+
+export interface Leaderboard {
+  period: LeaderboardPeriod;
+  metric: LeaderboardMetric;
+  /** Unix timestamp (ms) the period started at, or null if it spans seasons */
+  since: number | null;
+  /** Every user with a nonzero metric, best first */
+  entries: LeaderboardEntry[];
+}
+
+/** Board pixels per side of the grid cells territory is held in */
+export const TERRITORY_CELL_SIZE = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOG_PAGE_SIZE = 2000;
+// Stats are reused for this long even if the board has changed, so busy
+// boards aren't re-read on every request
+const STATS_CACHE_MS = 15_000;
+const MAX_CACHED_TALLIES = 50;
+
+type UserStats = Omit<LeaderboardEntry, 'user' | 'rank'>;
+
+/**
+ * Running per-user placement counts for one season's log, extended with
+ * only the placements made since the last read.
+ */
+interface PlacementTally {
+  after: number;
+  placed: Map<string, number>;
+  /** The read in progress; reads run one at a time so none is counted twice */
+  updating: Promise<void>;
+}
+
+// Tallies keyed by `${canvasId}:${season}:${since}`
+const tallies = new Map<string, PlacementTally>();
+// Board stats of sealed seasons, which never change, keyed by `${canvasId}:${season}`
+const sealedBoardStats = new Map<string, Map<string, UserStats>>();
+// Latest stats of each canvas and period, keyed by `${canvasId}:${period}`
+const cachedStats = new Map<
+  string,
+  { season: number; since: number; sequence: number; computedAt: number; stats: Map<string, UserStats> }
+>();
+
+function getUserStats(stats: Map<string, UserStats>, user: string): UserStats {
+  let entry = stats.get(user);
+  if (!entry) {
+    entry = { placed: 0, surviving: 0, territory: 0 };
+    stats.set(user, entry);
+  }
+  return entry;
+}
+
+async function readNewPlacements(canvasId: string, season: number, since: number, tally: PlacementTally) {
+  const store = getCanvasStore(canvasId, season);
+  for (;;) {
+    const page = await store.getPlacements(tally.after, LOG_PAGE_SIZE);
+    for (const pixel of page) {
+      if (!isPaintedPlacement(pixel) || pixel.timestamp < since) continue;
+      tally.placed.set(pixel.user, (tally.placed.get(pixel.user) ?? 0) + 1);
+    }
+    // Undone placements no longer count, whichever page they were counted in
+    for (const placement of await getRevertedPlacements(store, page)) {
+      if (!isPaintedPlacement(placement) || placement.timestamp < since) continue;
+      tally.placed.set(placement.user, (tally.placed.get(placement.user) ?? 0) - 1);
+    }
+    if (page.length > 0) {
+      tally.after = page[page.length - 1].seq;
+    }
+    if (page.length < LOG_PAGE_SIZE) break;
+  }
+}
+
+/** Pixels each user placed in `season` at or after `since` */
+async function countPlacements(canvasId: string, season: number, since: number): Promise<Map<string, number>> {
+  const key = `${canvasId}:${season}:${since}`;
+  let tally = tallies.get(key);
+  if (!tally) {
+    tally = { after: 0, placed: new Map(), updating: Promise.resolve() };
+    tallies.set(key, tally);
+    if (tallies.size > MAX_CACHED_TALLIES) {
+      tallies.delete(tallies.keys().next().value!);
+    }
+  }
+  const current = tally;
+  current.updating = current.updating
+    .catch(() => {})
+    .then(() => readNewPlacements(canvasId, season, since, current));
+  await current.updating;
+  return current.placed;
+}
+
+/**
+ * Surviving pixels and held territory per user on a board, counting only
+ * pixels placed at or after `since`. A cell is held by whoever has the
+ * most pixels in it; tied cells are held by nobody.
+ */
+function getBoardStats(pixels: Pixel[], canvasSize: number, since: number): Map<string, UserStats> {
+  const stats = new Map<string, UserStats>();
+  const columns = Math.ceil(canvasSize / TERRITORY_CELL_SIZE);
+  const cells = new Map<number, Map<string, number>>();
+  for (const pixel of pixels) {
+    if (pixel.timestamp < since) continue;
+    getUserStats(stats, pixel.user).surviving++;
+    const cell = Math.floor(pixel.y / TERRITORY_CELL_SIZE) * columns + Math.floor(pixel.x / TERRITORY_CELL_SIZE);
+    const counts = cells.get(cell) ?? new Map<string, number>();
+    counts.set(pixel.user, (counts.get(pixel.user) ?? 0) + 1);
+    cells.set(cell, counts);
+  }
+
+  for (const counts of cells.values()) {
+    let holder: string | null = null;
+    let best = 0;
+    for (const [user, count] of counts) {
+      if (count > best) {
+        holder = user;
+        best = count;
+      } else if (count === best) {
+        holder = null;
+      }
+    }
+    if (holder !== null) {
+      getUserStats(stats, holder).territory++;
+    }
+  }
+  return stats;
+}
+
+function addStats(total: Map<string, UserStats>, stats: Map<string, UserStats>) {
+  for (const [user, { placed, surviving, territory }] of stats) {
+    const entry = getUserStats(total, user);
+    entry.placed += placed;
+    entry.surviving += surviving;
+    entry.territory += territory;
+  }
+}
+
+async function getSeasonStats(canvas: ActiveCanvas, season: number, since: number): Promise<Map<string, UserStats>> {
+  const stats = new Map<string, UserStats>();
+  const sealedKey = `${canvas.id}:${season}`;
+  let boardStats = sealedBoardStats.get(sealedKey);
+  if (!boardStats) {
+    const pixels = await getCanvasStore(canvas.id, season).getPixels();
+    boardStats = getBoardStats(pixels, canvas.size, since);
+    if (season < canvas.season.number) {
+      sealedBoardStats.set(sealedKey, boardStats);
+    }
+  }
+  addStats(stats, boardStats);
+  for (const [user, placed] of await countPlacements(canvas.id, season, since)) {
+    getUserStats(stats, user).placed += placed;
+  }
+  return stats;
+}
+
+async function computeStats(canvas: ActiveCanvas, period: LeaderboardPeriod, since: number): Promise<Map<string, UserStats>> {
+  if (period !== 'all') {
+    return getSeasonStats(canvas, canvas.season.number, since);
+  }
+  const seasons = [canvas.season.number, ...(await getSeasonArchives(canvas.id)).map(archive => archive.season)];
+  const total = new Map<string, UserStats>();
+  for (const season of seasons) {
+    addStats(total, await getSeasonStats(canvas, season, since));
+  }
+  return total;
+}
+
+/**
+ * Ranks everyone who painted on `canvas` during `period` by `metric`, ties
+ * broken by the other metrics.
+ */
+export async function getLeaderboard(
+  canvas: ActiveCanvas,
+  period: LeaderboardPeriod,
+  metric: LeaderboardMetric
+): Promise<Leaderboard> {
+  const now = Date.now();
+  const since = period === 'day' ? Math.floor(now / DAY_MS) * DAY_MS : 0;
+  const sequence = await getCanvasStore(canvas.id, canvas.season.number).getSequence();
+
+  const key = `${canvas.id}:${period}`;
+  let cached = cachedStats.get(key);
+  const isCurrent = cached?.season === canvas.season.number && cached.since === since;
+  if (!cached || !isCurrent || (cached.sequence !== sequence && now - cached.computedAt >= STATS_CACHE_MS)) {
+    cached = {
+      season: canvas.season.number,
+      since,
+      sequence,
+      computedAt: now,
+      stats: await computeStats(canvas, period, since),
+    };
+    cachedStats.set(key, cached);
+  }
+
+  const others = LEADERBOARD_METRICS.filter(other => other !== metric);
+  const entries = Array.from(cached.stats, ([user, stats]) => ({ user, ...stats }))
+    .filter(entry => entry[metric] > 0)
+    .sort((a, b) =>
+      b[metric] - a[metric] || b[others[0]] - a[others[0]] || b[others[1]] - a[others[1]] || Number(a.user) - Number(b.user)
+    )
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+
+  return {
+    period,
+    metric,
+    since: period === 'all' ? null : since || canvas.season.startsAt,
+    entries,
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * Default canvas endpoints that are also served without the canvas ID, as
+ * they were before there were rooms; the canonical paths are under
+ * `/api/canvas/default`. `next.config.ts` rewrites them ahead of
+ * `/api/canvas/[id]`, so none of them can be a room ID.
+ *
+ * Kept free of imports so `next.config.ts` can load it.
+ */
+export const LEGACY_CANVAS_ROUTES = [
+  'activity', 'batch', 'changes', 'config', 'history', 'image.png',
+  'leaderboard', 'pixel', 'purchase', 'snapshot', 'stream', 'undo', 'user',
+];
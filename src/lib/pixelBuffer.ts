@@ -0,0 +1,88 @@
+/**
+ * Client-side RGBA color buffer for the canvas renderer.
+ *
+ * The buffer holds `size * size` RGBA entries laid out row by row, so it can
+ * back an `ImageData` directly. Unpainted pixels have alpha 0. Writes widen
+ * a dirty rectangle that the renderer consumes to repaint only what changed.
+ */
+export interface PixelBuffer {
+  size: number;
+  data: Uint8ClampedArray<ArrayBuffer>;
+  dirty: DirtyRect | null;
+}
+
+export interface DirtyRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function createPixelBuffer(size: number): PixelBuffer {
+  return {
+    size,
+    data: new Uint8ClampedArray(size * size * 4),
+    dirty: null,
+  };
+}
+
+function markDirty(buffer: PixelBuffer, x: number, y: number) {
+  const { dirty } = buffer;
+  if (!dirty) {
+    buffer.dirty = { x, y, width: 1, height: 1 };
+    return;
+  }
+  const left = Math.min(dirty.x, x);
+  const top = Math.min(dirty.y, y);
+  const right = Math.max(dirty.x + dirty.width, x + 1);
+  const bottom = Math.max(dirty.y + dirty.height, y + 1);
+  buffer.dirty = { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Clears every pixel and marks the whole buffer dirty.
+ */
+export function clearPixelBuffer(buffer: PixelBuffer) {
+  buffer.data.fill(0);
+  buffer.dirty = { x: 0, y: 0, width: buffer.size, height: buffer.size };
+}
+
+/**
+ * Paints `color` (`#RRGGBB`) at (x, y), or clears it back to unpainted when
+ * `color` is null. Out-of-bounds writes are ignored.
+ */
+export function setBufferPixel(buffer: PixelBuffer, x: number, y: number, color: string | null) {
+  if (x < 0 || x >= buffer.size || y < 0 || y >= buffer.size) return;
+  const offset = (y * buffer.size + x) * 4;
+  if (color === null) {
+    buffer.data.fill(0, offset, offset + 4);
+    markDirty(buffer, x, y);
+    return;
+  }
+  const value = parseInt(color.slice(1), 16);
+  buffer.data[offset] = (value >> 16) & 0xff;
+  buffer.data[offset + 1] = (value >> 8) & 0xff;
+  buffer.data[offset + 2] = value & 0xff;
+  buffer.data[offset + 3] = 0xff;
+  markDirty(buffer, x, y);
+}
+
+/**
+ * Returns the `#RRGGBB` color at (x, y), or null if the pixel is unpainted.
+ */
+export function getBufferColor(buffer: PixelBuffer, x: number, y: number): string | null {
+  if (x < 0 || x >= buffer.size || y < 0 || y >= buffer.size) return null;
+  const offset = (y * buffer.size + x) * 4;
+  if (buffer.data[offset + 3] === 0) return null;
+  const value = (buffer.data[offset] << 16) | (buffer.data[offset + 1] << 8) | buffer.data[offset + 2];
+  return `#${value.toString(16).padStart(6, '0').toUpperCase()}`;
+}
+
+/**
+ * Returns and clears the region written since the last call.
+ */
+export function takeDirtyRect(buffer: PixelBuffer): DirtyRect | null {
+  const { dirty } = buffer;
+  buffer.dirty = null;
+  return dirty;
+}
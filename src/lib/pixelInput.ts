@@ -0,0 +1,39 @@
+import { isColorAllowed, type CanvasConfig } from './canvasConfig';
+
+/**
+ * A pixel as submitted by a client, before it is attributed and sequenced.
+ */
+export interface PixelInput {
+  x: number;
+  y: number;
+  color: string;
+}
+
+export type PixelInputResult = { pixel: PixelInput } | { error: string };
+
+/**
+ * Validates a client-submitted pixel against `canvas`, flooring its
+ * coordinates and upper-casing its `#RRGGBB` color. If the canvas has a
+ * palette, the color must be one of its entries.
+ */
+export function parsePixelInput(input: unknown, canvas: CanvasConfig): PixelInputResult {
+  const { x, y, color } = (input ?? {}) as Record<string, unknown>;
+
+  if (typeof x !== 'number' || typeof y !== 'number' || typeof color !== 'string') {
+    return { error: 'Invalid input parameters' };
+  }
+
+  if (x < 0 || x >= canvas.size || y < 0 || y >= canvas.size) {
+    return { error: 'Coordinates out of bounds' };
+  }
+
+  if (!/^#[0-9A-F]{6}$/i.test(color)) {
+    return { error: 'Invalid color format' };
+  }
+
+  if (!isColorAllowed(canvas.palette, color)) {
+    return { error: 'Color is not in the canvas palette' };
+  }
+
+  return { pixel: { x: Math.floor(x), y: Math.floor(y), color: color.toUpperCase() } };
+}
@@ -0,0 +1,133 @@
+import { APP_NAME } from './constants';
+import { redis } from './kv';
+import { getCanvasKeyPrefix, type CanvasConfig } from './canvasConfig';
+
+/**
+ * A user's pixel allowance on one canvas, as reported by every canvas
+ * endpoint. Each canvas has its own daily allowance; purchased pixels can
+ * be spent on any of them.
+ */
+export interface PixelQuota {
+  /** Free pixels left for the current UTC day */
+  daily: number;
+  /** Purchased pixels left; these never expire */
+  purchased: number;
+  /** Total pixels the user can still place (daily + purchased) */
+  remaining: number;
+  /** Unix timestamp (ms) at which the daily allowance resets */
+  resetsAt: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Daily counters outlive their day so late refunds still find them
+const DAILY_COUNTER_TTL_SECONDS = (2 * DAY_MS) / 1000;
+
+// In-memory fallback storage
+const localCounters = new Map<string, number>();
+
+// Days are counted in UTC, matching `block.timestamp / 1 days` in CastCanvas.sol
+function getCurrentDay(): number {
+  return Math.floor(Date.now() / DAY_MS);
+}
+
+function getDailyUsedKey(canvasId: string, user: string, day: number): string {
+  return `${getCanvasKeyPrefix(canvasId)}:quota:daily:${user}:${day}`;
+}
+
+function getPurchasedKey(user: string): string {
+  return `${APP_NAME}:quota:purchased:${user}`;
+}
+
+async function getCounter(key: string): Promise<number> {
+  if (redis) {
+    return (await redis.get<number>(key)) || 0;
+  }
+  return localCounters.get(key) || 0;
+}
+
+async function incrementCounter(key: string, amount: number, ttlSeconds?: number): Promise<number> {
+  if (redis) {
+    const value = await redis.incrby(key, amount);
+    if (ttlSeconds) {
+      await redis.expire(key, ttlSeconds);
+    }
+    return value;
+  }
+  const value = (localCounters.get(key) || 0) + amount;
+  localCounters.set(key, value);
+  return value;
+}
+
+export async function getPixelQuota(canvas: CanvasConfig, user: string): Promise<PixelQuota> {
+  const day = getCurrentDay();
+  const [dailyUsed, purchased] = await Promise.all([
+    getCounter(getDailyUsedKey(canvas.id, user, day)),
+    getCounter(getPurchasedKey(user)),
+  ]);
+  const daily = Math.max(0, canvas.dailyLimit - dailyUsed);
+  const purchasedLeft = Math.max(0, purchased);
+
+  return {
+    daily,
+    purchased: purchasedLeft,
+    remaining: daily + purchasedLeft,
+    resetsAt: (day + 1) * DAY_MS,
+  };
+}
+
+/**
+ * How many pixels of a placement were charged against each balance.
+ */
+export interface PixelCharge {
+  daily: number;
+  purchased: number;
+  /** UTC day whose allowance the daily pixels came from */
+  day: number;
+}
+
+/**
+ * Spends `count` pixels at once, drawing from the daily allowance before
+ * purchased pixels the same way `CastCanvas.usePixel` does. Nothing is
+ * spent unless the user can afford all of them.
+ *
+ * @returns How the pixels were charged, or null if the user can't afford them
+ */
+export async function consumePixels(canvas: CanvasConfig, user: string, count: number): Promise<PixelCharge | null> {
+  // Increment first and roll back on overdraw so concurrent requests
+  // can never spend the same pixel twice.
+  const day = getCurrentDay();
+  const dailyKey = getDailyUsedKey(canvas.id, user, day);
+  const dailyUsed = await incrementCounter(dailyKey, count, DAILY_COUNTER_TTL_SECONDS);
+  const overflow = Math.min(count, Math.max(0, dailyUsed - canvas.dailyLimit));
+  if (overflow === 0) {
+    return { daily: count, purchased: 0, day };
+  }
+  await incrementCounter(dailyKey, -overflow);
+
+  const purchasedKey = getPurchasedKey(user);
+  const purchasedLeft = await incrementCounter(purchasedKey, -overflow);
+  if (purchasedLeft >= 0) {
+    return { daily: count - overflow, purchased: overflow, day };
+  }
+  await Promise.all([
+    incrementCounter(purchasedKey, overflow),
+    incrementCounter(dailyKey, overflow - count),
+  ]);
+
+  return null;
+}
+
+/**
+ * Gives back pixels spent by `consumePixels`, each to the balance it came
+ * from. Daily pixels only return to the day they were taken from.
+ */
+export async function refundPixels(canvasId: string, user: string, charge: PixelCharge): Promise<void> {
+  await Promise.all([
+    charge.daily > 0 && incrementCounter(getDailyUsedKey(canvasId, user, charge.day), -charge.daily),
+    charge.purchased > 0 && incrementCounter(getPurchasedKey(user), charge.purchased),
+  ]);
+}
+
+export async function creditPurchasedPixels(user: string, pixels: number): Promise<void> {
+  await incrementCounter(getPurchasedKey(user), pixels);
+}
@@ -0,0 +1,101 @@
+import { PLACEMENT_COOLDOWN_MS, PURCHASED_PLACEMENT_COOLDOWN_MS } from './constants';
+import { redis } from './kv';
+import { getCanvasKeyPrefix } from './canvasConfig';
+import type { PixelCharge } from './pixelQuota';
+
+// How long a claim blocks other placements while its request is processed
+const CLAIM_TIMEOUT_MS = 10_000;
+
+// In-memory fallback storage: user key -> next placement time
+const localCooldowns = new Map<string, number>();
+
+// Cooldowns are per canvas, so waiting on one board doesn't block another
+function getCooldownKey(canvasId: string, user: string): string {
+  return `${getCanvasKeyPrefix(canvasId)}:cooldown:${user}`;
+}
+
+function getLocalCooldown(key: string): number | null {
+  const nextPlacementAt = localCooldowns.get(key);
+  if (nextPlacementAt === undefined || nextPlacementAt <= Date.now()) return null;
+  return nextPlacementAt;
+}
+
+/**
+ * Cooldown a placement earns: every pixel adds the cooldown of the balance
+ * it was paid from, so large batches of purchased pixels are slowed down
+ * the most.
+ */
+export function getCooldownMs(charge: PixelCharge): number {
+  return charge.daily * PLACEMENT_COOLDOWN_MS + charge.purchased * PURCHASED_PLACEMENT_COOLDOWN_MS;
+}
+
+/**
+ * Unix timestamp (ms) before which the user may not place again, or null
+ * if they can place now.
+ */
+export async function getNextPlacementAt(canvasId: string, user: string): Promise<number | null> {
+  const key = getCooldownKey(canvasId, user);
+  if (redis) {
+    const nextPlacementAt = await redis.get<number>(key);
+    return nextPlacementAt && nextPlacementAt > Date.now() ? nextPlacementAt : null;
+  }
+  return getLocalCooldown(key);
+}
+
+/**
+ * Reserves the user's next placement so concurrent requests can't skip the
+ * cooldown. Follow up with `startPlacementCooldown` once the placement is
+ * made, or `releasePlacement` if it fails.
+ *
+ * @returns null if claimed, otherwise the time the user has to wait for
+ */
+export async function claimPlacement(canvasId: string, user: string): Promise<number | null> {
+  const key = getCooldownKey(canvasId, user);
+  const claimedUntil = Date.now() + CLAIM_TIMEOUT_MS;
+  if (redis) {
+    const claimed = await redis.set(key, claimedUntil, { nx: true, px: CLAIM_TIMEOUT_MS });
+    return claimed ? null : (await getNextPlacementAt(canvasId, user)) ?? claimedUntil;
+  }
+  const nextPlacementAt = getLocalCooldown(key);
+  if (nextPlacementAt !== null) return nextPlacementAt;
+  localCooldowns.set(key, claimedUntil);
+  return null;
+}
+
+/**
+ * Replaces the user's claim with the cooldown `charge` earned.
+ *
+ * @returns The time of the user's next placement, or null if they can place now
+ */
+export async function startPlacementCooldown(
+  canvasId: string,
+  user: string,
+  charge: PixelCharge
+): Promise<number | null> {
+  const cooldownMs = getCooldownMs(charge);
+  if (cooldownMs <= 0) {
+    await releasePlacement(canvasId, user);
+    return null;
+  }
+  const key = getCooldownKey(canvasId, user);
+  const nextPlacementAt = Date.now() + cooldownMs;
+  if (redis) {
+    await redis.set(key, nextPlacementAt, { px: cooldownMs });
+  } else {
+    localCooldowns.set(key, nextPlacementAt);
+  }
+  return nextPlacementAt;
+}
+
+/**
+ * Lets the user place again right away, after a failed placement or an
+ * undo.
+ */
+export async function releasePlacement(canvasId: string, user: string): Promise<void> {
+  const key = getCooldownKey(canvasId, user);
+  if (redis) {
+    await redis.del(key);
+  } else {
+    localCooldowns.delete(key);
+  }
+}
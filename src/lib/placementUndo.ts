@@ -0,0 +1,60 @@
+import { UNDO_WINDOW_MS } from './constants';
+import { redis } from './kv';
+import { getCanvasKeyPrefix } from './canvasConfig';
+import type { Pixel } from './canvasStore';
+import type { PixelCharge } from './pixelQuota';
+
+/**
+ * A user's most recent placement (one pixel or a whole tool batch), kept
+ * for `UNDO_WINDOW_MS` so it can be undone and refunded.
+ */
+export interface UndoablePlacement {
+  pixels: Pixel[];
+  charge: PixelCharge;
+  /** Unix timestamp (ms) after which the placement can no longer be undone */
+  expiresAt: number;
+}
+
+// In-memory fallback storage
+const localPlacements = new Map<string, UndoablePlacement>();
+
+function getUndoKey(canvasId: string, user: string): string {
+  return `${getCanvasKeyPrefix(canvasId)}:undo:${user}`;
+}
+
+/**
+ * Remembers `pixels` as the user's undoable placement, replacing any
+ * earlier one.
+ */
+export async function recordUndoablePlacement(
+  canvasId: string,
+  user: string,
+  pixels: Pixel[],
+  charge: PixelCharge
+): Promise<UndoablePlacement> {
+  const placement = { pixels, charge, expiresAt: Date.now() + UNDO_WINDOW_MS };
+  const key = getUndoKey(canvasId, user);
+  if (redis) {
+    await redis.set(key, placement, { px: UNDO_WINDOW_MS });
+  } else {
+    localPlacements.set(key, placement);
+  }
+  return placement;
+}
+
+/**
+ * Removes and returns the user's undoable placement, or null if there is
+ * none or its window has passed. Taking it in one step means a placement
+ * can only be undone, and refunded, once.
+ */
+export async function takeUndoablePlacement(canvasId: string, user: string): Promise<UndoablePlacement | null> {
+  const key = getUndoKey(canvasId, user);
+  let placement: UndoablePlacement | null;
+  if (redis) {
+    placement = await redis.getdel<UndoablePlacement>(key);
+  } else {
+    placement = localPlacements.get(key) || null;
+    localPlacements.delete(key);
+  }
+  return placement && placement.expiresAt > Date.now() ? placement : null;
+}
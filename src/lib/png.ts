@@ -0,0 +1,204 @@
+/**
+ * Minimal pure-TypeScript PNG encoder for 8-bit RGB images.
+ *
+ * Each row is filtered with "Up" when it repeats the previous row and "Sub"
+ * otherwise, which turns flat color areas and nearest-neighbor upscaling
+ * into long runs of zeros. Those runs are then compressed with a fixed
+ * Huffman deflate stream that only emits literals and distance-1 matches.
+ * That is all pixel art needs, and it keeps the encoder free of native or
+ * third-party dependencies.
+ */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const BYTES_PER_PIXEL = 3;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+interface BitWriter {
+  /** Writes `count` bits of `value`, least significant bit first */
+  writeBits(value: number, count: number): void;
+  /** Writes a Huffman code, most significant bit first */
+  writeCode(code: number, length: number): void;
+  finish(): Uint8Array;
+}
+
+function createBitWriter(): BitWriter {
+  const bytes: number[] = [];
+  let current = 0;
+  let bitCount = 0;
+
+  const writeBits = (value: number, count: number) => {
+    for (let i = 0; i < count; i++) {
+      current |= ((value >>> i) & 1) << bitCount;
+      if (++bitCount === 8) {
+        bytes.push(current);
+        current = 0;
+        bitCount = 0;
+      }
+    }
+  };
+
+  return {
+    writeBits,
+    writeCode(code, length) {
+      for (let i = length - 1; i >= 0; i--) {
+        writeBits((code >>> i) & 1, 1);
+      }
+    },
+    finish() {
+      if (bitCount > 0) bytes.push(current);
+      return Uint8Array.from(bytes);
+    },
+  };
+}
+
+// Deflate length codes 257-285: [base length, extra bits]
+const LENGTH_CODES: [number, number][] = [
+  [3, 0], [4, 0], [5, 0], [6, 0], [7, 0], [8, 0], [9, 0], [10, 0],
+  [11, 1], [13, 1], [15, 1], [17, 1], [19, 2], [23, 2], [27, 2], [31, 2],
+  [35, 3], [43, 3], [51, 3], [59, 3], [67, 4], [83, 4], [99, 4], [115, 4],
+  [131, 5], [163, 5], [195, 5], [227, 5], [258, 0],
+];
+const MAX_MATCH = 258;
+
+// Fixed Huffman code for a literal/length symbol (RFC 1951 §3.2.6)
+function writeFixedSymbol(writer: BitWriter, symbol: number) {
+  if (symbol < 144) writer.writeCode(0x30 + symbol, 8);
+  else if (symbol < 256) writer.writeCode(0x190 + symbol - 144, 9);
+  else if (symbol < 280) writer.writeCode(symbol - 256, 7);
+  else writer.writeCode(0xc0 + symbol - 280, 8);
+}
+
+function writeMatch(writer: BitWriter, length: number) {
+  let index = LENGTH_CODES.length - 1;
+  while (LENGTH_CODES[index][0] > length) index--;
+  const [base, extraBits] = LENGTH_CODES[index];
+  writeFixedSymbol(writer, 257 + index);
+  writer.writeBits(length - base, extraBits);
+  // Distance code 0 (distance 1) with no extra bits
+  writer.writeCode(0, 5);
+}
+
+function zlibCompress(data: Uint8Array): Uint8Array {
+  const writer = createBitWriter();
+  // Single final block using the fixed Huffman tables
+  writer.writeBits(1, 1);
+  writer.writeBits(1, 2);
+
+  let i = 0;
+  while (i < data.length) {
+    let run = 0;
+    if (i > 0) {
+      while (run < MAX_MATCH && i + run < data.length && data[i + run] === data[i - 1]) run++;
+    }
+    if (run >= 3) {
+      writeMatch(writer, run);
+      i += run;
+    } else {
+      writeFixedSymbol(writer, data[i]);
+      i++;
+    }
+  }
+  writeFixedSymbol(writer, 256);
+
+  const deflated = writer.finish();
+  const output = new Uint8Array(deflated.length + 6);
+  output[0] = 0x78;
+  output[1] = 0x01;
+  output.set(deflated, 2);
+  new DataView(output.buffer).setUint32(output.length - 4, adler32(data));
+  return output;
+}
+
+function filterRows(width: number, height: number, rgb: Uint8Array): Uint8Array {
+  const stride = width * BYTES_PER_PIXEL;
+  const filtered = new Uint8Array(height * (stride + 1));
+
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const out = y * (stride + 1);
+    let repeatsPrevious = y > 0;
+    for (let i = 0; repeatsPrevious && i < stride; i++) {
+      if (rgb[row + i] !== rgb[row - stride + i]) repeatsPrevious = false;
+    }
+
+    if (repeatsPrevious) {
+      // Up filter: identical rows become all zeros
+      filtered[out] = 2;
+    } else {
+      // Sub filter: runs of one color become zeros after their first pixel
+      filtered[out] = 1;
+      for (let i = 0; i < stride; i++) {
+        const left = i >= BYTES_PER_PIXEL ? rgb[row + i - BYTES_PER_PIXEL] : 0;
+        filtered[out + 1 + i] = (rgb[row + i] - left) & 0xff;
+      }
+    }
+  }
+
+  return filtered;
+}
+
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk, 4, 8 + data.length));
+  return chunk;
+}
+
+/**
+ * Encodes `width * height` RGB pixels (row by row, 3 bytes each) as a PNG.
+ */
+export function encodePng(width: number, height: number, rgb: Uint8Array): Uint8Array<ArrayBuffer> {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: truecolor RGB
+  // compression, filter and interlace methods are all 0
+
+  const chunks = [
+    Uint8Array.from(PNG_SIGNATURE),
+    createChunk('IHDR', header),
+    createChunk('IDAT', zlibCompress(filterRows(width, height, rgb))),
+    createChunk('IEND', new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    png.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return png;
+}
@@ -0,0 +1,40 @@
+import { APP_NAME } from './constants';
+import { redis } from './kv';
+
+// In-memory fallback storage
+const localRedemptions = new Map<string, string>();
+
+const REDEMPTIONS_KEY = `${APP_NAME}:purchase:redemptions`;
+
+function normalizeHash(transactionHash: string): string {
+  return transactionHash.toLowerCase();
+}
+
+/**
+ * Returns the user a purchase transaction was already credited to, if any.
+ */
+export async function getRedeemedBy(transactionHash: string): Promise<string | null> {
+  const hash = normalizeHash(transactionHash);
+  if (redis) {
+    const user = await redis.hget<string | number>(REDEMPTIONS_KEY, hash);
+    return user === null ? null : String(user);
+  }
+  return localRedemptions.get(hash) || null;
+}
+
+/**
+ * Atomically marks a purchase transaction as redeemed by `user`.
+ *
+ * @returns True if this call claimed the hash, false if it was already redeemed
+ */
+export async function claimRedemption(transactionHash: string, user: string): Promise<boolean> {
+  const hash = normalizeHash(transactionHash);
+  if (redis) {
+    return (await redis.hsetnx(REDEMPTIONS_KEY, hash, user)) === 1;
+  }
+  if (localRedemptions.has(hash)) {
+    return false;
+  }
+  localRedemptions.set(hash, user);
+  return true;
+}
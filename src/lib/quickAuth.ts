@@ -0,0 +1,49 @@
+import { createClient, Errors } from '@farcaster/quick-auth';
+
+const client = createClient();
+
+/**
+ * Returns the domain QuickAuth tokens are expected to be issued for.
+ */
+export function getQuickAuthDomain(request: Request): string {
+  return process.env.NEXT_PUBLIC_URL
+    ? new URL(process.env.NEXT_PUBLIC_URL).hostname
+    : request.headers.get('host') || 'localhost';
+}
+
+/**
+ * Verifies a QuickAuth JWT and returns the FID it was issued to.
+ *
+ * @returns The token's `sub` FID, or null if the token is invalid
+ * @throws For failures other than an invalid token (e.g. network errors)
+ */
+export async function verifyQuickAuthToken(
+  token: string,
+  domain: string
+): Promise<number | null> {
+  try {
+    const payload = await client.verifyJwt({ token, domain });
+    return payload.sub;
+  } catch (e) {
+    if (e instanceof Errors.InvalidTokenError) {
+      console.info('Invalid token:', e.message);
+      return null;
+    }
+    throw e;
+  }
+}
+
+/**
+ * Reads the `Authorization: Bearer <token>` header of a request and
+ * verifies it with QuickAuth.
+ *
+ * @returns The authenticated FID, or null if the header is missing or invalid
+ */
+export async function getAuthenticatedFid(request: Request): Promise<number | null> {
+  const authorization = request.headers.get('authorization');
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return null;
+  }
+  return verifyQuickAuthToken(match[1], getQuickAuthDomain(request));
+}
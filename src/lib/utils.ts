@@ -20,7 +20,7 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-export function getMiniAppEmbedMetadata(ogImageUrl?: string) {
+export function getMiniAppEmbedMetadata(ogImageUrl?: string, launchUrl?: string) {
   return {
     version: 'next',
     imageUrl: ogImageUrl ?? APP_OG_IMAGE_URL,
@@ -32,7 +32,7 @@ export function getMiniAppEmbedMetadata(ogImageUrl?: string) {
       action: {
         type: 'launch_frame',
         name: APP_NAME,
-        url: APP_URL,
+        url: launchUrl ?? APP_URL,
         splashImageUrl: APP_SPLASH_URL,
         iconUrl: APP_ICON_URL,
         splashBackgroundColor: APP_SPLASH_BACKGROUND_COLOR,
@@ -0,0 +1,80 @@
+import { DEFAULT_CANVAS_ID } from './constants';
+import type { CanvasRegion } from './canvasImage';
+import { getCanvasPath } from './canvasConfig';
+
+/**
+ * A shareable view of the board: the board coordinate at the center of the
+ * screen and the zoom level (screen pixels per board pixel).
+ *
+ * Encoded in URLs as `?x=&y=&z=` and, on the default canvas, in share
+ * paths as `/share/at/x/y/z`.
+ */
+export interface Viewport {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 20;
+
+// Screen size assumed when a viewport has to be turned into a board region
+// without a real screen, e.g. for share images
+const REFERENCE_VIEW_SIZE = 400;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Parses and clamps a viewport to a `canvasSize` board; returns null unless
+ * x, y and z are all numbers.
+ */
+export function parseViewport(
+  x: string | null,
+  y: string | null,
+  z: string | null,
+  canvasSize: number
+): Viewport | null {
+  if (x === null || y === null || z === null) return null;
+  const values = [Number(x), Number(y), Number(z)];
+  if (values.some(value => !Number.isFinite(value))) return null;
+  return {
+    x: clamp(Math.round(values[0]), 0, canvasSize - 1),
+    y: clamp(Math.round(values[1]), 0, canvasSize - 1),
+    z: clamp(Math.round(values[2] * 10) / 10, MIN_ZOOM, MAX_ZOOM),
+  };
+}
+
+export function parseViewportSearchParams(searchParams: URLSearchParams, canvasSize: number): Viewport | null {
+  return parseViewport(searchParams.get('x'), searchParams.get('y'), searchParams.get('z'), canvasSize);
+}
+
+export function getViewportQuery(viewport: Viewport): string {
+  return `x=${viewport.x}&y=${viewport.y}&z=${viewport.z}`;
+}
+
+// Rooms embed their own share metadata, so their links point at the room page
+export function getViewportSharePath(viewport: Viewport, canvasId: string): string {
+  return canvasId === DEFAULT_CANVAS_ID
+    ? `/share/at/${viewport.x}/${viewport.y}/${viewport.z}`
+    : `${getCanvasPath(canvasId)}?${getViewportQuery(viewport)}`;
+}
+
+/**
+ * The square region of a `canvasSize` board a viewport shows on a
+ * `viewSize` pixel screen.
+ */
+export function getViewportRegion(
+  viewport: Viewport,
+  canvasSize: number,
+  viewSize = REFERENCE_VIEW_SIZE
+): CanvasRegion {
+  const size = clamp(Math.round(viewSize / viewport.z), 1, canvasSize);
+  return {
+    x: clamp(Math.round(viewport.x - size / 2), 0, canvasSize - size),
+    y: clamp(Math.round(viewport.y - size / 2), 0, canvasSize - size),
+    width: size,
+    height: size,
+  };
+}